@@ -18,26 +18,19 @@ void logPixelValues(int x, int y, int r, int g, int b) {
   printf("Pixel at (%d, %d) - R: %d, G: %d, B: %d\n", x, y, r, g, b);
 }
 
-// Function to apply sepia filter
+// Apply a sepia filter in place to an RGBA buffer of width * height pixels.
+// Alpha is left untouched.
 void sepia_filter(int width, int height, uint8_t *buffer) {
+  const int length = width * height * 4;
 
-  for (int y = 0; y < height; y++) {
-    for (int x = 0; x < width; x += 3) {
-      logPixelValues(x, y, buffer[y * width + x], buffer[y * width + x + 1],
-                     buffer[y * width + x + 2]);
+  for (int i = 0; i < length; i += 4) {
+    int r = buffer[i];
+    int g = buffer[i + 1];
+    int b = buffer[i + 2];
 
-      int r = buffer[y * width + x];
-      int g = buffer[y * width + x + 1];
-      int b = buffer[y * width + x + 2];
-
-      int out_r = clamp((int)(r * .393) + (int)(g * .769) + (int)(b * .189));
-      int out_g = clamp((int)(r * .349) + (int)(g * .686) + (int)(b * .168));
-      int out_b = clamp((int)(r * .272) + (int)(g * .534) + (int)(b * .131));
-
-      buffer[y * width + x] = out_r;
-      buffer[y * width + x + 1] = out_g;
-      buffer[y * width + x + 2] = out_b;
-    }
+    buffer[i] = clamp((int)(r * .393) + (int)(g * .769) + (int)(b * .189));
+    buffer[i + 1] = clamp((int)(r * .349) + (int)(g * .686) + (int)(b * .168));
+    buffer[i + 2] = clamp((int)(r * .272) + (int)(g * .534) + (int)(b * .131));
   }
 }
 
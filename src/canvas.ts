@@ -0,0 +1,84 @@
+/**
+ * Canvas rendering and conversion helpers.
+ * Path: src/canvas.ts
+ */
+
+/**
+ * @description Convert a canvas to an image.
+ * @param canvas
+ * @returns
+ */
+export function canvasToImage(canvas: HTMLCanvasElement) {
+  const image = new Image();
+  image.src = canvas.toDataURL("image/png");
+  return image;
+}
+
+/**
+ * @description Encode a canvas as an image Blob.
+ * @param canvas Canvas or OffscreenCanvas.
+ * @param type Image MIME type. Defaults to "image/png".
+ * @param quality Quality from 0 to 1 for lossy formats such as JPEG and WebP.
+ * @returns
+ */
+export async function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  type = "image/png",
+  quality?: number
+): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode canvas")),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ *  Render an image to a canvas element that is appended to the given element.
+ * @param el Element to append the canvas to.
+ * @param src Image source. Can be a string or a File object.
+ * @param dimens Dimensions of the canvas.
+ * @param options ImageBitmapOptions.
+ * @returns A promise of the canvas, or undefined if the image failed to load.
+ */
+export const renderImage = (
+  el: HTMLElement,
+  src: string | File,
+  dimens?: { width: number; height: number },
+  options?: ImageBitmapOptions
+) => {
+  // create a new image element
+  const img = document.createElement("img");
+  const objectUrl =
+    typeof src === "string" ? undefined : URL.createObjectURL(src);
+  img.src = objectUrl ?? (src as string);
+
+  return new Promise<HTMLCanvasElement | undefined>((resolve) => {
+    img.onload = () => {
+      createImageBitmap(img, options).then(
+        (bitmap) => {
+          // we now have a bitmap of the image
+          const canvas = document.createElement("canvas");
+          canvas.width = dimens?.width || bitmap.width;
+          canvas.height = dimens?.height || bitmap.height;
+          const ctx = canvas.getContext("2d");
+          ctx?.drawImage(bitmap, 0, 0);
+          bitmap.close();
+          el.appendChild(canvas);
+          resolve(canvas);
+        },
+        () => resolve(undefined)
+      );
+    };
+    img.onerror = () => resolve(undefined);
+  }).finally(() => {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  });
+};
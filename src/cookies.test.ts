@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { parseCookies, serializeCookie } from "./cookies";
+
+describe("parseCookies", () => {
+  test("matches names exactly and keeps the first duplicate", () => {
+    const cookies = parseCookies("session=1; xsession=2; session=3");
+    expect({ ...cookies }).toEqual({ session: "1", xsession: "2" });
+  });
+
+  test("keeps '=' in values and strips quotes", () => {
+    const cookies = parseCookies('token=a=b==; quoted="value"; empty=');
+    expect({ ...cookies }).toEqual({
+      token: "a=b==",
+      quoted: "value",
+      empty: "",
+    });
+  });
+
+  test("skips pairs without '=' or a name", () => {
+    expect({ ...parseCookies("flag; =value; a=1;;") }).toEqual({ a: "1" });
+    expect({ ...parseCookies("") }).toEqual({});
+  });
+
+  test("decodes names and values, leaving malformed escapes alone", () => {
+    const cookies = parseCookies(
+      "a%20b=x%3By%2C%20%C3%A9; raw=100%; bad=%E0%A4%A"
+    );
+    expect({ ...cookies }).toEqual({
+      "a b": "x;y, é",
+      raw: "100%",
+      bad: "%E0%A4%A",
+    });
+  });
+
+  test("does not see prototype properties as cookies", () => {
+    expect("constructor" in parseCookies("a=1")).toBe(false);
+    expect({ ...parseCookies("constructor=k") }).toEqual({ constructor: "k" });
+  });
+});
+
+describe("serializeCookie", () => {
+  test("encodes only what RFC 6265 requires", () => {
+    expect(serializeCookie("a b", "x;y, é")).toBe("a%20b=x%3By%2C%20%C3%A9");
+    expect(serializeCookie("prefs", '{"a":1}')).toBe("prefs={%22a%22:1}");
+  });
+
+  test("round-trips through parseCookies", () => {
+    const value = 'a;b=c "d" ,é%';
+    const [pair] = serializeCookie("name;1", value).split("; ");
+    expect(parseCookies(pair)["name;1"]).toBe(value);
+  });
+
+  test("writes the attributes", () => {
+    expect(
+      serializeCookie("id", "v", {
+        expires: new Date(0),
+        maxAge: 9.7,
+        path: "/",
+        domain: "example.com",
+        secure: true,
+        sameSite: "none",
+        partitioned: true,
+      })
+    ).toBe(
+      "id=v; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=9; Path=/; " +
+        "Domain=example.com; Secure; SameSite=None; Partitioned"
+    );
+  });
+
+  test("counts a numeric expires in days", () => {
+    const before = Date.now();
+    const cookie = serializeCookie("id", "v", { expires: 1 });
+    const expires = Date.parse(cookie.split("Expires=")[1]);
+    const day = 24 * 60 * 60 * 1000;
+    expect(expires).toBeGreaterThanOrEqual(
+      Math.floor(before / 1000) * 1000 + day
+    );
+    expect(expires).toBeLessThanOrEqual(Date.now() + day);
+  });
+
+  test("rejects attributes browsers would refuse", () => {
+    expect(() => serializeCookie("", "v")).toThrow();
+    expect(() => serializeCookie("id", "v", { sameSite: "none" })).toThrow();
+    expect(() => serializeCookie("id", "v", { partitioned: true })).toThrow();
+    expect(() => serializeCookie("__Secure-id", "v")).toThrow();
+    expect(() =>
+      serializeCookie("__Host-id", "v", { secure: true, path: "/app" })
+    ).toThrow();
+    expect(() => serializeCookie("id", "v", { maxAge: Infinity })).toThrow();
+    expect(serializeCookie("__Host-id", "v", { secure: true, path: "/" })).toBe(
+      "__Host-id=v; Path=/; Secure"
+    );
+  });
+});
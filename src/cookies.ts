@@ -0,0 +1,277 @@
+/**
+ * Cookies: parsing and serialization following RFC 6265, JSON values and
+ * change notifications.
+ * Path: src/cookies.ts
+ */
+
+export interface CookieOptions {
+  /** A date, or a number of days from now. */
+  expires?: number | Date;
+  /** Lifetime in seconds. Takes precedence over `expires` in browsers. */
+  maxAge?: number;
+  path?: string;
+  domain?: string;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+  /** Store the cookie per top-level site (CHIPS). Requires `secure`. */
+  partitioned?: boolean;
+}
+
+/** Attributes that identify a cookie when removing it. */
+export type RemoveCookieOptions = Pick<
+  CookieOptions,
+  "path" | "domain" | "secure" | "sameSite" | "partitioned"
+>;
+
+export interface CookieChange {
+  name: string;
+  /** The new value, or undefined if the cookie was removed. */
+  value?: string;
+}
+
+export interface CookieChangeOptions {
+  /** Only report changes to this cookie. */
+  name?: string;
+  /** Polling interval in ms when the Cookie Store API is unavailable. Defaults to 1000. */
+  interval?: number;
+}
+
+// The parts of the Cookie Store API used here; not in TypeScript's DOM lib yet.
+interface CookieStoreLike extends EventTarget {}
+interface CookieChangeEventLike extends Event {
+  changed: { name: string; value?: string }[];
+  deleted: { name: string }[];
+}
+
+// encodeURIComponent escapes more than needed. Keep the characters RFC 6265
+// allows in names (tokens) and values readable.
+function encodeName(name: string) {
+  return encodeURIComponent(name)
+    .replace(/%(2[346B]|5E|60|7C)/g, decodeURIComponent)
+    .replace(/\(/g, "%28")
+    .replace(/\)/g, "%29");
+}
+
+function encodeValue(value: string) {
+  return encodeURIComponent(value).replace(
+    /%(2[346BF]|3[AC-F]|40|5[BDE]|60|7[BCD])/g,
+    decodeURIComponent
+  );
+}
+
+function decode(text: string) {
+  try {
+    return text.replace(/(%[\dA-F]{2})+/gi, decodeURIComponent);
+  } catch {
+    // Not percent-encoded by us; return it as it is.
+    return text;
+  }
+}
+
+/**
+ * @description Parse a `Cookie` header or `document.cookie` string.
+ * Names are matched exactly and values may contain "=". When a name occurs
+ * twice, the first one wins; browsers list the cookie with the most
+ * specific path first.
+ * @param header
+ * @returns Decoded values by name.
+ */
+export function parseCookies(header: string) {
+  // No prototype, so that names like "constructor" are not taken as set.
+  const cookies: Record<string, string> = Object.create(null);
+  header.split(";").forEach((pair) => {
+    const index = pair.indexOf("=");
+    if (index < 0) return;
+
+    const name = decode(pair.slice(0, index).trim());
+    let value = pair.slice(index + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    if (name && !(name in cookies)) cookies[name] = decode(value);
+  });
+  return cookies;
+}
+
+/**
+ * @description Build a `Set-Cookie` string. Names and values are
+ * percent-encoded where RFC 6265 requires it.
+ * Throws if the attributes would make browsers reject the cookie:
+ * `SameSite=None` and `Partitioned` need `Secure`, and the `__Secure-` and
+ * `__Host-` name prefixes have their own rules.
+ * @param name
+ * @param value
+ * @param options
+ * @returns
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+) {
+  const { expires, maxAge, path, domain, secure, sameSite, partitioned } =
+    options;
+
+  if (!name) throw new Error("Cookie name must not be empty");
+  if (sameSite === "none" && !secure) {
+    throw new Error(`Cookie "${name}" with SameSite=None must be Secure`);
+  }
+  if (partitioned && !secure) {
+    throw new Error(`Partitioned cookie "${name}" must be Secure`);
+  }
+  if (/^__(Secure|Host)-/.test(name) && !secure) {
+    throw new Error(`Cookie "${name}" must be Secure because of its prefix`);
+  }
+  if (name.startsWith("__Host-") && (domain || path !== "/")) {
+    throw new Error(`Cookie "${name}" must have path "/" and no domain`);
+  }
+  if (maxAge !== undefined && !Number.isFinite(maxAge)) {
+    throw new Error("Cookie maxAge must be a finite number of seconds");
+  }
+
+  let cookie = `${encodeName(name)}=${encodeValue(value)}`;
+
+  if (expires !== undefined) {
+    const date =
+      typeof expires === "number"
+        ? new Date(Date.now() + expires * 24 * 60 * 60 * 1000)
+        : expires;
+    cookie += `; Expires=${date.toUTCString()}`;
+  }
+  if (maxAge !== undefined) cookie += `; Max-Age=${Math.floor(maxAge)}`;
+  if (path) cookie += `; Path=${path}`;
+  if (domain) cookie += `; Domain=${domain}`;
+  if (secure) cookie += "; Secure";
+  if (sameSite) {
+    cookie += `; SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`;
+  }
+  if (partitioned) cookie += "; Partitioned";
+  return cookie;
+}
+
+/**
+ * @description Get all cookies visible to the page.
+ * @returns Decoded values by name.
+ */
+export function getAllCookies() {
+  return parseCookies(document.cookie);
+}
+
+/**
+ * @description Get a cookie by its exact name.
+ * @param name
+ * @returns The decoded value, or undefined if there is no such cookie.
+ */
+export function getCookie(name: string): string | undefined {
+  return getAllCookies()[name];
+}
+
+/**
+ * @description Set a cookie. The name and value are encoded.
+ * @example setCookie("theme", "dark", { maxAge: 60 * 60 * 24 * 365, path: "/" });
+ * @param name
+ * @param value
+ * @param options `expires` as a number counts days; `maxAge` counts seconds.
+ */
+export function setCookie(
+  name: string,
+  value: string,
+  options?: CookieOptions
+) {
+  document.cookie = serializeCookie(name, value, options);
+}
+
+/**
+ * @description Remove a cookie. The path and domain must match the ones the
+ * cookie was set with, or the browser keeps it.
+ * @param name
+ * @param options
+ */
+export function removeCookie(name: string, options: RemoveCookieOptions = {}) {
+  setCookie(name, "", { ...options, expires: new Date(0), maxAge: 0 });
+}
+
+/**
+ * @description Get a cookie holding JSON.
+ * @param name
+ * @returns The parsed value, or undefined if the cookie is missing or not JSON.
+ */
+export function getJSONCookie<T = unknown>(name: string): T | undefined {
+  const value = getCookie(name);
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @description Set a cookie to a value serialized as JSON.
+ * @param name
+ * @param value
+ * @param options
+ */
+export function setJSONCookie(
+  name: string,
+  value: unknown,
+  options?: CookieOptions
+) {
+  setCookie(name, JSON.stringify(value), options);
+}
+
+/**
+ * @description Listen for cookie changes, including those made by the
+ * server and by other tabs. Uses the Cookie Store API where available and
+ * compares `document.cookie` on an interval elsewhere. HttpOnly cookies are
+ * never reported.
+ * @example
+ * const stop = onCookieChange(([change]) => {
+ *   if (change.value === undefined) showLoggedOut();
+ * }, { name: "session" });
+ * @param listener Called with the changed cookies.
+ * @param options
+ * @returns A function that stops listening.
+ */
+export function onCookieChange(
+  listener: (changes: CookieChange[]) => void,
+  { name, interval = 1000 }: CookieChangeOptions = {}
+) {
+  const report = (changes: CookieChange[]) => {
+    const relevant = name
+      ? changes.filter((change) => change.name === name)
+      : changes;
+    if (relevant.length > 0) listener(relevant);
+  };
+
+  const store = (globalThis as { cookieStore?: CookieStoreLike }).cookieStore;
+  if (store) {
+    const onChange = (event: Event) => {
+      const { changed, deleted } = event as CookieChangeEventLike;
+      report([
+        ...changed.map((cookie) => ({
+          name: decode(cookie.name),
+          value: decode(cookie.value ?? ""),
+        })),
+        ...deleted.map((cookie) => ({ name: decode(cookie.name) })),
+      ]);
+    };
+    store.addEventListener("change", onChange);
+    return () => store.removeEventListener("change", onChange);
+  }
+
+  let previous = getAllCookies();
+  const intervalId = setInterval(() => {
+    const current = getAllCookies();
+    const changes: CookieChange[] = [];
+    Object.entries(current).forEach(([key, value]) => {
+      if (previous[key] !== value) changes.push({ name: key, value });
+    });
+    Object.keys(previous).forEach((key) => {
+      if (!(key in current)) changes.push({ name: key });
+    });
+    previous = current;
+    report(changes);
+  }, interval);
+  return () => clearInterval(intervalId);
+}
@@ -0,0 +1,20 @@
+/**
+ * Small DOM helpers shared by the UI controllers.
+ * Path: src/dom.ts
+ */
+
+/** onClickOutside
+ * @description Call a function when a user clicks outside an element.
+ * @param el Element to check.
+ * @param fn Function to call.
+ */
+export function onClickOutside(el: HTMLElement, fn: (e: MouseEvent) => void) {
+  const handler = (event: MouseEvent) => {
+    if (!el.contains(event.target as Node) && event.target !== el) {
+      fn(event);
+    }
+  };
+
+  document.addEventListener("pointerdown", handler);
+  return () => document.removeEventListener("pointerdown", handler);
+}
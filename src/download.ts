@@ -0,0 +1,306 @@
+/**
+ * Downloads with progress, resume and streaming to disk.
+ * Path: src/download.ts
+ */
+
+import { getContentLength, http, isHttpError, type HttpClient } from "./http";
+import { sleep } from "./scheduling";
+
+export interface DownloadProgress {
+  /** Bytes received, including bytes received before a resume. */
+  loaded: number;
+  /** Size of the file, or undefined if the server does not report it. */
+  total?: number;
+  /** Fraction from 0 to 1, or undefined while the total is unknown. */
+  progress?: number;
+}
+
+export interface DownloadFileOptions {
+  url: string;
+  /** Overrides the name from Content-Disposition and the URL. */
+  filename?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+  /**
+   * Where to write the file:
+   * - "auto" (default): stream to disk with the File System Access API when
+   *   available, else save a Blob.
+   * - "file-system": always ask for a location with showSaveFilePicker.
+   * - "blob": buffer in memory and save through a download link.
+   * - "none": buffer in memory and only return the Blob.
+   * - A FileSystemFileHandle to write to.
+   */
+  saveTo?: "auto" | "file-system" | "blob" | "none" | FileSystemFileHandle;
+  /** Times to resume with a Range request after a network error. Defaults to 3. */
+  retries?: number;
+  /** Delay in ms before resuming. Doubles after every attempt. Defaults to 1000. */
+  retryDelay?: number;
+  /** Client to send the requests with. Defaults to `http`. */
+  client?: HttpClient;
+}
+
+export interface DownloadResult {
+  filename: string;
+  size: number;
+  type: string;
+  /** The file contents, unless they were streamed to disk. */
+  blob?: Blob;
+  savedTo: "file-system" | "blob" | "none";
+}
+
+type SaveFilePicker = (options?: {
+  suggestedName?: string;
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * @description Save a Blob as a file by clicking a temporary anchor.
+ * The object URL is revoked after the click has been handled; revoking it
+ * synchronously cancels the download in some browsers.
+ * @param blob Data to save.
+ * @param filename Suggested file name.
+ */
+export function saveBlob(blob: Blob, filename?: string) {
+  const blobUrl = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = blobUrl;
+  a.download = filename || "";
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+}
+
+/**
+ * @description Get the file name from a Content-Disposition header.
+ * The RFC 5987 `filename*` parameter takes precedence over `filename`.
+ * @example parseContentDisposition(`attachment; filename="report.pdf"`) // "report.pdf"
+ * @param header
+ * @returns The file name, or undefined if the header has none.
+ */
+export function parseContentDisposition(header: string | null) {
+  if (!header) return undefined;
+
+  const extended = header.match(/filename\*\s*=\s*([^;]+)/i);
+  if (extended) {
+    // charset'language'percent-encoded-value
+    const [, charset, value] =
+      extended[1].trim().match(/^([^']*)'[^']*'(.*)$/) ?? [];
+    if (value !== undefined) {
+      try {
+        if (!charset || /^utf-8$/i.test(charset)) {
+          return decodeURIComponent(value);
+        }
+        // ISO-8859-1: every percent-encoded byte is one character.
+        return value.replace(/%([0-9a-f]{2})/gi, (_, hex) =>
+          String.fromCharCode(parseInt(hex, 16))
+        );
+      } catch {
+        // Malformed encoding; fall back to the plain filename.
+      }
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]+))/i);
+  if (!plain) return undefined;
+  const name = plain[1]?.replace(/\\(.)/g, "$1") ?? plain[2].trim();
+  return name || undefined;
+}
+
+// Keep only the base name so that a header cannot point outside the
+// download folder.
+function sanitizeFilename(name: string) {
+  return (
+    name
+      .split(/[\\/]/)
+      .pop()!
+      .replace(/[\u0000-\u001f]/g, "") || "download"
+  );
+}
+
+function filenameFromUrl(url: string) {
+  try {
+    const path = new URL(url, location.href).pathname;
+    return decodeURIComponent(path.split("/").pop() || "") || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @description Download a file from a URL.
+ * Reports progress, rejects on HTTP errors, names the file from
+ * Content-Disposition, streams to disk with the File System Access API when
+ * available and resumes with Range requests after network errors.
+ * HTTP errors reject with an `HttpError`.
+ * @example
+ * const controller = new AbortController();
+ * await downloadFile({
+ *   url: "/exports/report.csv",
+ *   signal: controller.signal,
+ *   onProgress: ({ progress }) => console.log(progress),
+ * });
+ * @param options
+ * @returns
+ */
+export async function downloadFile({
+  url,
+  filename,
+  headers = {},
+  signal,
+  onProgress,
+  saveTo = "auto",
+  retries = 3,
+  retryDelay = 1000,
+  client = http,
+}: DownloadFileOptions): Promise<DownloadResult> {
+  signal?.throwIfAborted();
+
+  const picker = (globalThis as { showSaveFilePicker?: SaveFilePicker })
+    .showSaveFilePicker;
+  if (saveTo === "file-system" && !picker) {
+    throw new Error("The File System Access API is not available");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let writable: FileSystemWritableFileStream | undefined;
+  let savedTo: DownloadResult["savedTo"] = saveTo === "none" ? "none" : "blob";
+  let loaded = 0;
+  let total: number | undefined;
+  let validator: string | null = null;
+  let name = filename;
+  let type = "";
+
+  const report = () =>
+    onProgress?.({
+      loaded,
+      total,
+      progress: total ? Math.min(1, loaded / total) : undefined,
+    });
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const resuming = loaded > 0;
+      const requestHeaders: Record<string, string> = { ...headers };
+      if (resuming) {
+        requestHeaders.Range = `bytes=${loaded}-`;
+        // Only resume if the file has not changed since the first response.
+        if (validator) requestHeaders["If-Range"] = validator;
+      }
+
+      // Bytes stored before this response; reset if the server restarts.
+      let offset = loaded;
+      let response: Response;
+      try {
+        response = await client.request(url, {
+          headers: requestHeaders,
+          signal,
+          // Retries resume from the bytes received so far instead.
+          retry: false,
+          onDownloadProgress: (received) => {
+            loaded = offset + received;
+            report();
+          },
+        });
+      } catch (error) {
+        const status = isHttpError(error) ? error.status : undefined;
+        // Every byte had arrived before the connection dropped.
+        if (resuming && status === 416 && loaded === total) break;
+        if (signal?.aborted || status !== undefined || attempt >= retries) {
+          throw error;
+        }
+        await sleep(retryDelay * 2 ** attempt, signal);
+        continue;
+      }
+
+      if (resuming && response.status !== 206) {
+        // The server ignored the Range or the file changed: start over.
+        loaded = offset = 0;
+        chunks.length = 0;
+        await writable?.truncate(0);
+        await writable?.seek(0);
+      } else if (resuming) {
+        const rangeStart = response.headers
+          .get("Content-Range")
+          ?.match(/bytes\s+(\d+)-/)?.[1];
+        if (Number(rangeStart) !== offset) {
+          throw new Error(
+            "The server resumed the download at the wrong offset"
+          );
+        }
+        total ??= getContentLength(response);
+      }
+
+      if (!resuming || response.status !== 206) {
+        total = getContentLength(response);
+        validator =
+          response.headers.get("ETag") ?? response.headers.get("Last-Modified");
+        type = response.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+        name = sanitizeFilename(
+          name ??
+            parseContentDisposition(
+              response.headers.get("Content-Disposition")
+            ) ??
+            filenameFromUrl(url) ??
+            "download"
+        );
+        report();
+      }
+
+      // Ask for a location once, after the name is known. The picker needs
+      // the user activation of the click that started the download; fall
+      // back to a Blob if it has expired.
+      if (!writable && savedTo !== "none" && saveTo !== "blob") {
+        let handle = typeof saveTo === "object" ? saveTo : undefined;
+        if (!handle && picker) {
+          try {
+            handle = await picker({ suggestedName: name });
+          } catch (error) {
+            if ((error as DOMException).name === "AbortError") {
+              await response.body?.cancel();
+              throw error;
+            }
+            if (saveTo === "file-system") throw error;
+          }
+        }
+        if (handle) {
+          writable = await handle.createWritable();
+          savedTo = "file-system";
+        }
+      }
+
+      const reader = response.body!.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (writable) await writable.write(value);
+          else chunks.push(value);
+        }
+        break;
+      } catch (error) {
+        if (signal?.aborted || attempt >= retries) throw error;
+        // Network error in the middle of the body: resume from `loaded`.
+        await sleep(retryDelay * 2 ** attempt, signal);
+      }
+    }
+
+    await writable?.close();
+  } catch (error) {
+    await writable?.abort().catch(() => {});
+    throw error;
+  }
+
+  const result: DownloadResult = {
+    filename: name!,
+    size: loaded,
+    type,
+    savedTo,
+  };
+
+  if (!writable) {
+    result.blob = new Blob(chunks, { type });
+    if (savedTo === "blob") saveBlob(result.blob, result.filename);
+  }
+  return result;
+}
@@ -0,0 +1,529 @@
+/**
+ * Drag-and-drop, paste and file input picker with a reorderable queue.
+ * Styles live in css/dropzone.css.
+ * Path: src/dropzone.ts
+ */
+
+import { renderImage } from "./canvas";
+import { createEmitter, type Emitter } from "./events";
+import {
+  acceptTypes,
+  createFileError,
+  limitFileSize,
+  processFiles,
+  type FileProcessor,
+  type FileValidationError,
+} from "./file-processing";
+
+export interface DropzoneFile {
+  id: string;
+  file: File;
+  /** Path relative to the dropped folder, or the file name. */
+  path: string;
+  /** The preview list item, when previews are enabled. */
+  preview?: HTMLElement;
+}
+
+export interface DropzoneEvents {
+  add: DropzoneFile[];
+  remove: DropzoneFile;
+  reject: FileValidationError[];
+  /** The queue after any add, remove or reorder. */
+  change: DropzoneFile[];
+  /** Dropped, picked or pasted files could not be read, e.g. a folder. */
+  error: { error: unknown };
+}
+
+export interface DropzoneOptions {
+  /** Accepted MIME types or wildcards such as "image/*", checked by content. */
+  accept?: string[];
+  /** Maximum file size in bytes. */
+  maxFileSize?: number;
+  /** Minimum file size in bytes. */
+  minFileSize?: number;
+  /** Maximum number of files in the queue. */
+  maxFiles?: number;
+  /** Extra processors run after the accept and size rules. */
+  processors?: FileProcessor[];
+  /** Read the files of dropped folders. Defaults to true. */
+  directories?: boolean;
+  /**
+   * Element that receives paste events. Defaults to the dropzone itself;
+   * pass `document` to accept pastes anywhere on the page, or false.
+   */
+  paste?: HTMLElement | Document | false;
+  /** Open the file picker when the dropzone is clicked. Defaults to true. */
+  clickable?: boolean;
+  /**
+   * List that shows the queue. Defaults to a `.dropzone-previews` list
+   * inserted after the dropzone; false disables previews.
+   */
+  previews?: HTMLElement | false;
+  /** Width in pixels of image thumbnails. Defaults to 96. */
+  thumbnailSize?: number;
+}
+
+export interface Dropzone {
+  element: HTMLElement;
+  input: HTMLInputElement;
+  /** Queued files in order, e.g. for `uploadFiles({ url, files })`. */
+  readonly files: File[];
+  readonly items: DropzoneFile[];
+  on: Emitter<DropzoneEvents>["on"];
+  /** Validate and queue files. Resolves with the files that were added. */
+  add(files: File[] | FileList): Promise<DropzoneFile[]>;
+  remove(id: string): void;
+  /** Move the file at `from` to index `to`. */
+  move(from: number, to: number): void;
+  clear(): void;
+  /** Open the file picker. */
+  open(): void;
+  destroy(): void;
+}
+
+let nextId = 0;
+
+function formatSize(bytes: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject)
+  );
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+// Walk a dropped folder. readEntries returns at most 100 entries per call.
+async function collectEntry(
+  entry: FileSystemEntry,
+  files: { file: File; path: string }[]
+) {
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry);
+    files.push({ file, path: entry.fullPath.replace(/^\//, "") });
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (let batch = await readEntries(reader); batch.length > 0; ) {
+    for (const child of batch) await collectEntry(child, files);
+    batch = await readEntries(reader);
+  }
+}
+
+/**
+ * @description Turn an element into a drop target for files.
+ * Files can be dropped (including folders), pasted or picked with a hidden
+ * file input. The queue is previewed with thumbnails and can be reordered by
+ * dragging or with Alt+ArrowUp/ArrowDown, and items removed with their
+ * button or Delete.
+ * @example
+ * const dropzone = createDropzone(document.querySelector("#drop")!, {
+ *   accept: ["image/*"],
+ *   maxFiles: 10,
+ * });
+ * form.onsubmit = () => uploadFiles({ url: "/upload", files: dropzone.files });
+ * @param element
+ * @param options
+ * @returns
+ */
+export function createDropzone(
+  element: HTMLElement,
+  {
+    accept,
+    maxFileSize,
+    minFileSize,
+    maxFiles = Infinity,
+    processors = [],
+    directories = true,
+    paste = element,
+    clickable = true,
+    previews,
+    thumbnailSize = 96,
+  }: DropzoneOptions = {}
+): Dropzone {
+  const events = createEmitter<DropzoneEvents>();
+  let items: DropzoneFile[] = [];
+  // dragenter and dragleave fire for every child; count to know when the
+  // drag really leaves the dropzone.
+  let dragDepth = 0;
+
+  const rules: FileProcessor[] = [];
+  if (accept) rules.push(acceptTypes(accept));
+  if (maxFileSize !== undefined || minFileSize !== undefined) {
+    rules.push(limitFileSize({ min: minFileSize, max: maxFileSize }));
+  }
+  rules.push(...processors);
+
+  const input = document.createElement("input");
+  input.type = "file";
+  input.hidden = true;
+  input.multiple = maxFiles > 1;
+  if (accept) input.accept = accept.join(",");
+  element.appendChild(input);
+
+  element.classList.add("dropzone");
+  if (clickable) {
+    if (!element.hasAttribute("tabindex")) element.tabIndex = 0;
+    if (!element.hasAttribute("role")) element.setAttribute("role", "button");
+  }
+
+  let list: HTMLElement | undefined;
+  if (previews !== false) {
+    list = previews ?? document.createElement("ul");
+    list.classList.add("dropzone-previews");
+    if (!previews) element.after(list);
+  }
+
+  const emitChange = () => events.emit("change", [...items]);
+
+  const renderPreview = (item: DropzoneFile) => {
+    const li = document.createElement("li");
+    li.classList.add("dropzone-file");
+    li.dataset.id = item.id;
+    li.draggable = true;
+    li.tabIndex = 0;
+
+    const thumb = document.createElement("div");
+    thumb.classList.add("dropzone-thumb");
+    const extension = item.file.name.split(".").pop();
+    thumb.textContent =
+      extension && extension !== item.file.name
+        ? extension.slice(0, 4).toUpperCase()
+        : "FILE";
+
+    if (item.file.type.startsWith("image/")) {
+      renderImage(thumb, item.file, undefined, {
+        resizeWidth: thumbnailSize,
+        resizeQuality: "medium",
+      }).then((canvas) => {
+        if (!canvas) return;
+        // Keep only the canvas once the thumbnail has rendered.
+        thumb.textContent = "";
+        thumb.appendChild(canvas);
+        thumb.classList.add("has-image");
+      });
+    }
+
+    const name = document.createElement("span");
+    name.classList.add("dropzone-name");
+    name.textContent = item.path;
+    name.title = item.path;
+
+    const size = document.createElement("span");
+    size.classList.add("dropzone-size");
+    size.textContent = formatSize(item.file.size);
+
+    const remove = document.createElement("button");
+    remove.type = "button";
+    remove.classList.add("dropzone-remove");
+    remove.setAttribute("aria-label", `Remove ${item.path}`);
+    remove.textContent = "×";
+
+    li.append(thumb, name, size, remove);
+    return li;
+  };
+
+  const renderList = () => {
+    if (!list) return;
+    items.forEach((item) => list!.appendChild(item.preview!));
+  };
+
+  const add = async (fileList: File[] | FileList) => {
+    return addEntries(
+      Array.from(fileList).map((file) => ({
+        file,
+        path: file.webkitRelativePath || file.name,
+      }))
+    );
+  };
+
+  const addEntries = async (entries: { file: File; path: string }[]) => {
+    const accepted: { file: File; path: string }[] = [];
+    const errors: FileValidationError[] = [];
+
+    // One at a time, so that files replaced by processors (e.g. re-encoded
+    // images) keep their paths.
+    for (const { file, path } of entries) {
+      const result = await processFiles([file], { processors: rules });
+      errors.push(...result.errors);
+      result.files.forEach((file) => accepted.push({ file, path }));
+    }
+
+    const room = Math.max(0, maxFiles - items.length);
+    accepted.slice(room).forEach(({ file }) => {
+      errors.push(
+        createFileError(
+          "too-many-files",
+          file,
+          `Only ${maxFiles} files can be added`,
+          { limit: maxFiles, actual: items.length + accepted.length }
+        )
+      );
+    });
+
+    const added = accepted.slice(0, room).map(({ file, path }) => {
+      const item: DropzoneFile = {
+        id: `dropzone-file-${++nextId}`,
+        file,
+        path,
+      };
+      if (list) item.preview = renderPreview(item);
+      return item;
+    });
+
+    if (errors.length > 0) events.emit("reject", errors);
+    if (added.length > 0) {
+      items.push(...added);
+      renderList();
+      events.emit("add", added);
+      emitChange();
+    }
+    return added;
+  };
+
+  const remove = (id: string) => {
+    const item = items.find((item) => item.id === id);
+    if (!item) return;
+    items = items.filter((other) => other !== item);
+    item.preview?.remove();
+    events.emit("remove", item);
+    emitChange();
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to || !items[from] || to < 0 || to >= items.length) return;
+    const [item] = items.splice(from, 1);
+    items.splice(to, 0, item);
+    renderList();
+    emitChange();
+  };
+
+  const clear = () => {
+    const removed = items;
+    items = [];
+    removed.forEach((item) => {
+      item.preview?.remove();
+      events.emit("remove", item);
+    });
+    if (removed.length > 0) emitChange();
+  };
+
+  const open = () => input.click();
+
+  // ========== Dropping, picking and pasting =======================
+
+  const hasFiles = (event: DragEvent) =>
+    event.dataTransfer?.types.includes("Files") ?? false;
+
+  const onDragEnter = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth++;
+    element.classList.add("dropzone-active");
+  };
+
+  const onDragOver = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer!.dropEffect = "copy";
+  };
+
+  const onDragLeave = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    dragDepth = Math.max(0, dragDepth - 1);
+    if (dragDepth === 0) element.classList.remove("dropzone-active");
+  };
+
+  const report = (task: Promise<unknown>) =>
+    task.catch((error) => events.emit("error", { error }));
+
+  const onDrop = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth = 0;
+    element.classList.remove("dropzone-active");
+
+    const transfer = event.dataTransfer!;
+    // Entries must be read synchronously; the items are cleared after the
+    // event handler returns.
+    const entries = directories
+      ? Array.from(transfer.items)
+          .filter((item) => item.kind === "file")
+          .map((item) => item.webkitGetAsEntry?.())
+      : [];
+
+    if (entries.length === 0 || entries.some((entry) => !entry)) {
+      report(add(transfer.files));
+      return;
+    }
+
+    report(
+      (async () => {
+        const files: { file: File; path: string }[] = [];
+        for (const entry of entries) await collectEntry(entry!, files);
+        await addEntries(files);
+      })()
+    );
+  };
+
+  const onInputChange = () => {
+    if (!input.files) return;
+    const files = Array.from(input.files);
+    // Reset so that picking the same file again fires change.
+    input.value = "";
+    report(add(files));
+  };
+
+  const onClick = (event: MouseEvent) => {
+    const target = event.target as Node;
+    if (target === input || list?.contains(target)) return;
+    open();
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.target !== element) return;
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      open();
+    }
+  };
+
+  const onPaste = (event: Event) => {
+    const files = (event as ClipboardEvent).clipboardData?.files;
+    if (!files || files.length === 0) return;
+    event.preventDefault();
+    report(add(files));
+  };
+
+  // ========== Queue interaction =======================
+
+  const itemOf = (target: EventTarget | null) => {
+    const li = (target as HTMLElement | null)?.closest<HTMLElement>(
+      ".dropzone-file"
+    );
+    return li ? items.findIndex((item) => item.id === li.dataset.id) : -1;
+  };
+
+  let dragging = -1;
+
+  const onListClick = (event: MouseEvent) => {
+    const button = (event.target as HTMLElement).closest(".dropzone-remove");
+    const index = itemOf(event.target);
+    if (button && index >= 0) remove(items[index].id);
+  };
+
+  const onListKeyDown = (event: KeyboardEvent) => {
+    const index = itemOf(event.target);
+    if (index < 0 || !(event.target as HTMLElement).matches(".dropzone-file")) {
+      return;
+    }
+
+    if (event.key === "Delete" || event.key === "Backspace") {
+      event.preventDefault();
+      const next = items[index + 1] ?? items[index - 1];
+      remove(items[index].id);
+      next?.preview?.focus();
+    } else if (
+      event.altKey &&
+      (event.key === "ArrowUp" || event.key === "ArrowDown")
+    ) {
+      event.preventDefault();
+      const item = items[index];
+      move(index, index + (event.key === "ArrowUp" ? -1 : 1));
+      item.preview?.focus();
+    }
+  };
+
+  const onListDragStart = (event: DragEvent) => {
+    dragging = itemOf(event.target);
+    if (dragging < 0) return;
+    event.dataTransfer!.effectAllowed = "move";
+    // Firefox only starts a drag when data is set.
+    event.dataTransfer!.setData("text/plain", items[dragging].path);
+    items[dragging].preview?.classList.add("dragging");
+  };
+
+  const onListDragOver = (event: DragEvent) => {
+    if (dragging < 0) return;
+    const over = itemOf(event.target);
+    if (over < 0) return;
+    event.preventDefault();
+    if (over !== dragging) {
+      move(dragging, over);
+      dragging = over;
+    }
+  };
+
+  const onListDragEnd = () => {
+    if (dragging >= 0) items[dragging]?.preview?.classList.remove("dragging");
+    dragging = -1;
+  };
+
+  element.addEventListener("dragenter", onDragEnter);
+  element.addEventListener("dragover", onDragOver);
+  element.addEventListener("dragleave", onDragLeave);
+  element.addEventListener("drop", onDrop);
+  input.addEventListener("change", onInputChange);
+  if (clickable) {
+    element.addEventListener("click", onClick);
+    element.addEventListener("keydown", onKeyDown);
+  }
+  if (paste) paste.addEventListener("paste", onPaste);
+  if (list) {
+    list.addEventListener("click", onListClick);
+    list.addEventListener("keydown", onListKeyDown);
+    list.addEventListener("dragstart", onListDragStart);
+    list.addEventListener("dragover", onListDragOver);
+    list.addEventListener("dragend", onListDragEnd);
+  }
+
+  return {
+    element,
+    input,
+    get files() {
+      return items.map((item) => item.file);
+    },
+    get items() {
+      return [...items];
+    },
+    on: events.on,
+    add,
+    remove,
+    move,
+    clear,
+    open,
+    destroy() {
+      element.removeEventListener("dragenter", onDragEnter);
+      element.removeEventListener("dragover", onDragOver);
+      element.removeEventListener("dragleave", onDragLeave);
+      element.removeEventListener("drop", onDrop);
+      element.removeEventListener("click", onClick);
+      element.removeEventListener("keydown", onKeyDown);
+      if (paste) paste.removeEventListener("paste", onPaste);
+      if (list) {
+        list.removeEventListener("click", onListClick);
+        list.removeEventListener("keydown", onListKeyDown);
+        list.removeEventListener("dragstart", onListDragStart);
+        list.removeEventListener("dragover", onListDragOver);
+        list.removeEventListener("dragend", onListDragEnd);
+        if (previews) items.forEach((item) => item.preview?.remove());
+        else list.remove();
+      }
+      input.remove();
+      element.classList.remove("dropzone", "dropzone-active");
+      events.clear();
+    },
+  };
+}
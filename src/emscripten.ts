@@ -0,0 +1,356 @@
+/**
+ * Host for Emscripten builds (e.g. the Makefile `game` target) inside any canvas.
+ * Path: src/emscripten.ts
+ */
+
+/** Argument types understood by ccall/cwrap. */
+export type CArgType = "number" | "string" | "boolean" | "array";
+
+/** Return types understood by ccall/cwrap. null means void. */
+export type CReturnType = CArgType | null;
+
+/** JavaScript type of a ccall/cwrap argument or return value. */
+export type CValue<T extends CReturnType> = T extends "number"
+  ? number
+  : T extends "string"
+  ? string
+  : T extends "boolean"
+  ? boolean
+  : T extends "array"
+  ? ArrayLike<number>
+  : void;
+
+type CArgs<A extends readonly CArgType[]> = { [K in keyof A]: CValue<A[K]> };
+
+/** The parts of an Emscripten `Module` object used by the host. */
+export interface EmscriptenModule {
+  canvas?: HTMLCanvasElement;
+  arguments?: string[];
+  noInitialRun?: boolean;
+  print?: (text: string) => void;
+  printErr?: (text: string) => void;
+  setStatus?: (text: string) => void;
+  monitorRunDependencies?: (left: number) => void;
+  onRuntimeInitialized?: () => void;
+  onAbort?: (what: unknown) => void;
+  locateFile?: (path: string, prefix: string) => string;
+  ccall?: (
+    name: string,
+    returnType: CReturnType,
+    argTypes: readonly CArgType[],
+    args: readonly unknown[],
+    options?: { async?: boolean }
+  ) => unknown;
+  cwrap?: (
+    name: string,
+    returnType: CReturnType,
+    argTypes: readonly CArgType[],
+    options?: { async?: boolean }
+  ) => (...args: unknown[]) => unknown;
+  pauseMainLoop?: () => void;
+  resumeMainLoop?: () => void;
+  abort?: (what?: unknown) => void;
+  [key: string]: unknown;
+}
+
+export interface MountEmscriptenOptions {
+  /** URL of the generated JavaScript file, e.g. "game.js". */
+  script: string | URL;
+  /** Canvas the module renders into. */
+  canvas: HTMLCanvasElement;
+  /**
+   * Name of the global factory for builds made with -sMODULARIZE
+   * (-sEXPORT_NAME). Leave empty for classic builds that read `window.Module`.
+   */
+  factory?: string;
+  /** Command line arguments passed to main(). */
+  arguments?: string[];
+  /** Resolve data and wasm files. Defaults to paths next to the script. */
+  locateFile?: (path: string, prefix: string) => string;
+  /** stdout. Defaults to console.log. */
+  print?: (text: string) => void;
+  /** stderr. Defaults to console.error. */
+  printErr?: (text: string) => void;
+  /** Status messages such as "Downloading data..." and "Running...". */
+  onStatus?: (text: string) => void;
+  /** Called with the fraction (0 to 1) of downloads and dependencies done. */
+  onProgress?: (progress: number) => void;
+  /** Extra properties merged into the Module object. */
+  module?: Partial<EmscriptenModule>;
+  /** Abort loading or destroy the mounted module. */
+  signal?: AbortSignal;
+}
+
+export interface EmscriptenHost {
+  module: EmscriptenModule;
+  readonly paused: boolean;
+  /** Call a C function (needs ccall in EXPORTED_RUNTIME_METHODS). */
+  ccall<R extends CReturnType, A extends readonly CArgType[]>(
+    name: string,
+    returnType: R,
+    argTypes: A,
+    args: CArgs<A>
+  ): CValue<R>;
+  /** Call a C function that may suspend (ASYNCIFY). */
+  ccallAsync<R extends CReturnType, A extends readonly CArgType[]>(
+    name: string,
+    returnType: R,
+    argTypes: A,
+    args: CArgs<A>
+  ): Promise<CValue<R>>;
+  /** Wrap a C function (needs cwrap in EXPORTED_RUNTIME_METHODS). */
+  cwrap<R extends CReturnType, A extends readonly CArgType[]>(
+    name: string,
+    returnType: R,
+    argTypes: A
+  ): (...args: CArgs<A>) => CValue<R>;
+  /**
+   * Pause the main loop. Only works for builds that drive their loop with
+   * emscripten_set_main_loop. Returns false if the build cannot be paused.
+   */
+  pause(): boolean;
+  /** Resume a paused main loop. */
+  resume(): boolean;
+  /** Stop the runtime, release the WebGL context and remove the script. */
+  destroy(): void;
+}
+
+let mounted: EmscriptenHost | undefined;
+
+function loadScript(src: string, signal?: AbortSignal) {
+  return new Promise<HTMLScriptElement>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+
+    const onAbort = () => {
+      script.remove();
+      reject(signal!.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+
+    script.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(script);
+    };
+    script.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      script.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    document.body.appendChild(script);
+  });
+}
+
+// Emscripten reports downloads as "Downloading data... (loaded/total)".
+function parseStatus(text: string) {
+  const match = text.match(/^(.*)\((\d+(?:\.\d+)?)\/(\d+)\)$/);
+  if (!match) return undefined;
+  return { loaded: Number(match[2]), total: Number(match[3]) };
+}
+
+/**
+ * @description Mount an Emscripten module into a canvas.
+ * Only one module can be mounted at a time, because classic (non-MODULARIZE)
+ * builds read and write the global `Module`.
+ * @example
+ * const game = await mountEmscriptenModule({
+ *   script: "./game.js",
+ *   canvas: document.querySelector("canvas")!,
+ *   onProgress: (p) => console.log(p),
+ * });
+ * game.destroy();
+ * @param options
+ * @returns A promise that resolves when the runtime is initialized.
+ */
+export async function mountEmscriptenModule({
+  script,
+  canvas,
+  factory,
+  arguments: args = [],
+  locateFile,
+  print = console.log,
+  printErr = console.error,
+  onStatus,
+  onProgress,
+  module: extra = {},
+  signal,
+}: MountEmscriptenOptions): Promise<EmscriptenHost> {
+  if (mounted) {
+    throw new Error("An Emscripten module is already mounted");
+  }
+  signal?.throwIfAborted();
+
+  const scriptUrl = new URL(script, location.href).href;
+  const global = globalThis as unknown as Record<string, unknown>;
+
+  const tabIndex = canvas.getAttribute("tabindex");
+  const preventContextMenu = (event: Event) => event.preventDefault();
+  const onContextLost = () => {
+    printErr("WebGL context lost. Reload the page to restart the module.");
+  };
+
+  // Record the WebGL context that the module creates, so that destroy()
+  // releases it without creating one on a canvas that never had one.
+  type GetContext = (id: string, options?: unknown) => RenderingContext | null;
+  const getContext = canvas.getContext as GetContext;
+  const ownGetContext = Object.hasOwn(canvas, "getContext");
+  let gl: WebGLRenderingContext | undefined;
+  (canvas.getContext as GetContext) = function (
+    this: HTMLCanvasElement,
+    id,
+    options
+  ) {
+    const context = getContext.call(this, id, options);
+    if (context && id.includes("webgl")) gl = context as WebGLRenderingContext;
+    return context;
+  };
+
+  let destroyed = false;
+  let paused = false;
+  let scriptEl: HTMLScriptElement | undefined;
+  let totalDependencies = 0;
+
+  let ready!: () => void;
+  let fail!: (reason: unknown) => void;
+  const initialized = new Promise<void>((resolve, reject) => {
+    ready = resolve;
+    fail = reject;
+  });
+  // destroy() rejects it, also once nobody is waiting for it.
+  initialized.catch(() => {});
+
+  const config: EmscriptenModule = {
+    ...extra,
+    canvas,
+    arguments: args,
+    print,
+    printErr,
+    locateFile: locateFile ?? ((path) => new URL(path, scriptUrl).href),
+    setStatus(text) {
+      if (!text) return;
+      onStatus?.(text);
+      const status = parseStatus(text);
+      if (status && status.total > 0) {
+        onProgress?.(status.loaded / status.total);
+      }
+    },
+    monitorRunDependencies(left) {
+      totalDependencies = Math.max(totalDependencies, left);
+      if (totalDependencies === 0) return;
+      const done = totalDependencies - left;
+      config.setStatus?.(`Preparing... (${done}/${totalDependencies})`);
+    },
+    onRuntimeInitialized() {
+      onProgress?.(1);
+      onStatus?.("Running...");
+      extra.onRuntimeInitialized?.();
+      ready();
+    },
+    onAbort(what) {
+      if (destroyed) return;
+      extra.onAbort?.(what);
+      fail(what instanceof Error ? what : new Error(`Aborted: ${what}`));
+    },
+  };
+
+  let module = config;
+
+  const requireExport = <K extends "ccall" | "cwrap">(name: K) => {
+    const fn = module[name];
+    if (!fn) {
+      throw new Error(
+        `${name} is not exported. Add it to EXPORTED_RUNTIME_METHODS`
+      );
+    }
+    return fn as NonNullable<EmscriptenModule[K]>;
+  };
+
+  const destroy = () => {
+    if (destroyed) return;
+    destroyed = true;
+    fail(signal?.aborted ? signal.reason : new Error("Module destroyed"));
+
+    module.pauseMainLoop?.();
+    try {
+      module.abort?.("destroyed");
+    } catch {
+      // abort() throws to unwind the stack; nothing to do.
+    }
+
+    gl?.getExtension("WEBGL_lose_context")?.loseContext();
+    if (ownGetContext) {
+      canvas.getContext = getContext as HTMLCanvasElement["getContext"];
+    } else {
+      delete (canvas as Partial<HTMLCanvasElement>).getContext;
+    }
+
+    canvas.removeEventListener("contextmenu", preventContextMenu);
+    canvas.removeEventListener("webglcontextlost", onContextLost);
+    if (tabIndex === null) canvas.removeAttribute("tabindex");
+
+    scriptEl?.remove();
+    if (global.Module === config) delete global.Module;
+    if (mounted === host) mounted = undefined;
+    signal?.removeEventListener("abort", destroy);
+  };
+
+  const host: EmscriptenHost = {
+    get module() {
+      return module;
+    },
+    get paused() {
+      return paused;
+    },
+    ccall: (name, returnType, argTypes, args) =>
+      requireExport("ccall")(name, returnType, argTypes, args) as never,
+    ccallAsync: async (name, returnType, argTypes, args) =>
+      requireExport("ccall")(name, returnType, argTypes, args, {
+        async: true,
+      }) as never,
+    cwrap: (name, returnType, argTypes) =>
+      requireExport("cwrap")(name, returnType, argTypes) as never,
+    pause() {
+      if (!module.pauseMainLoop) return false;
+      module.pauseMainLoop();
+      paused = true;
+      return true;
+    },
+    resume() {
+      if (!module.resumeMainLoop) return false;
+      module.resumeMainLoop();
+      paused = false;
+      return true;
+    },
+    destroy,
+  };
+
+  mounted = host;
+  if (tabIndex === null) canvas.tabIndex = -1;
+  canvas.addEventListener("contextmenu", preventContextMenu);
+  canvas.addEventListener("webglcontextlost", onContextLost);
+  signal?.addEventListener("abort", destroy, { once: true });
+
+  try {
+    if (!factory) global.Module = config;
+    onStatus?.("Downloading...");
+    scriptEl = await loadScript(scriptUrl, signal);
+
+    if (factory) {
+      const create = global[factory];
+      if (typeof create !== "function") {
+        throw new Error(`${scriptUrl} does not define ${factory}()`);
+      }
+      module = await create(config);
+    }
+
+    // Aborting calls destroy(), which rejects this.
+    await initialized;
+  } catch (error) {
+    destroy();
+    throw error;
+  }
+
+  return host;
+}
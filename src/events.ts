@@ -0,0 +1,53 @@
+/**
+ * Minimal typed event emitter used by the UI controllers.
+ * Path: src/events.ts
+ */
+
+export type Listener<T> = (detail: T) => void;
+
+export interface Emitter<Events extends object> {
+  /**
+   * Subscribe to an event.
+   * @returns A function that removes the listener.
+   */
+  on<K extends keyof Events>(
+    type: K,
+    listener: Listener<Events[K]>
+  ): () => void;
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void;
+  emit<K extends keyof Events>(type: K, detail: Events[K]): void;
+  /** Remove every listener. */
+  clear(): void;
+}
+
+/**
+ * @description Create an event emitter.
+ * @example
+ * const events = createEmitter<{ change: number }>();
+ * const off = events.on("change", (value) => console.log(value));
+ * events.emit("change", 1);
+ * @returns
+ */
+export function createEmitter<Events extends object>(): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  const off: Emitter<Events>["off"] = (type, listener) => {
+    listeners.get(type)?.delete(listener);
+  };
+
+  return {
+    on(type, listener) {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+      return () => off(type, listener);
+    },
+    off,
+    emit(type, detail) {
+      // Copy so that listeners can unsubscribe while being called.
+      [...(listeners.get(type) ?? [])].forEach((listener) => listener(detail));
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,560 @@
+/**
+ * Client-side file validation and image preprocessing before upload.
+ * Path: src/file-processing.ts
+ */
+
+import { canvasToBlob } from "./canvas";
+import { readFile, ReadOptions } from "./files";
+
+export type FileErrorCode =
+  | "too-many-files"
+  | "file-too-large"
+  | "file-too-small"
+  | "invalid-type"
+  | "image-too-large"
+  | "image-too-small"
+  | "invalid-image";
+
+/** A rejected file. Thrown by processors and collected by `processFiles`. */
+export interface FileValidationError extends Error {
+  code: FileErrorCode;
+  file: File;
+  /**
+   * The limit that was exceeded: a count or size in bytes, the accepted
+   * types, or dimensions as "WIDTHxHEIGHT".
+   */
+  limit?: number | string | string[];
+  /** The offending value, e.g. the file size or detected type. */
+  actual?: number | string;
+}
+
+export interface FileProcessorContext {
+  /** Index of the file in the batch. */
+  index: number;
+  /** Number of files in the batch. */
+  count: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A pipeline step. Returns the file to pass on (the same one or a
+ * replacement) or throws a `FileValidationError` to reject it.
+ */
+export type FileProcessor = (
+  file: File,
+  context: FileProcessorContext
+) => File | Promise<File>;
+
+export interface ProcessFilesOptions {
+  processors?: FileProcessor[];
+  /** Files past this count are rejected with "too-many-files". */
+  maxFiles?: number;
+  signal?: AbortSignal;
+}
+
+export interface ProcessFilesResult {
+  /** Accepted files, after processing. */
+  files: File[];
+  errors: FileValidationError[];
+}
+
+/**
+ * @description Create a structured file error. Custom processors can throw it
+ * to reject a file.
+ * @param code
+ * @param file
+ * @param message
+ * @param details The limit and the offending value.
+ * @returns
+ */
+export function createFileError(
+  code: FileErrorCode,
+  file: File,
+  message: string,
+  details: Pick<FileValidationError, "limit" | "actual"> = {}
+): FileValidationError {
+  return Object.assign(new Error(message), { code, file, ...details });
+}
+
+/**
+ * @description Check whether an error was created with `createFileError`.
+ * @param error
+ * @returns
+ */
+export function isFileValidationError(
+  error: unknown
+): error is FileValidationError {
+  return error instanceof Error && "code" in error && "file" in error;
+}
+
+// ========== MIME sniffing =======================
+
+interface Signature {
+  type: string;
+  offset?: number;
+  bytes: (number | null)[];
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// null matches any byte.
+const signatures: Signature[] = [
+  { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  {
+    type: "image/png",
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { type: "image/gif", bytes: ascii("GIF87a") },
+  { type: "image/gif", bytes: ascii("GIF89a") },
+  {
+    type: "image/webp",
+    bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("WEBP")],
+  },
+  { type: "image/avif", offset: 4, bytes: ascii("ftypavif") },
+  { type: "image/heic", offset: 4, bytes: ascii("ftypheic") },
+  { type: "image/heic", offset: 4, bytes: ascii("ftypheix") },
+  { type: "image/heif", offset: 4, bytes: ascii("ftypmif1") },
+  { type: "image/bmp", bytes: ascii("BM") },
+  { type: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { type: "application/pdf", bytes: ascii("%PDF-") },
+  { type: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: "application/gzip", bytes: [0x1f, 0x8b, 0x08] },
+  { type: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { type: "video/quicktime", offset: 4, bytes: ascii("ftypqt  ") },
+  { type: "video/mp4", offset: 4, bytes: ascii("ftyp") },
+  {
+    type: "audio/wav",
+    bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("WAVE")],
+  },
+  { type: "audio/ogg", bytes: ascii("OggS") },
+  { type: "audio/flac", bytes: ascii("fLaC") },
+  { type: "audio/mpeg", bytes: ascii("ID3") },
+  { type: "audio/mpeg", bytes: [0xff, 0xfb] },
+];
+
+/**
+ * @description Detect the MIME type of a file from its first bytes (magic
+ * numbers), ignoring its name and the browser-reported type.
+ * Detects common image, audio, video and archive formats, PDF and SVG.
+ * @param file
+ * @returns The MIME type, or undefined if it is not recognised.
+ */
+export async function sniffMimeType(file: Blob) {
+  const buffer = await readFile<ArrayBuffer>(
+    file.slice(0, 256),
+    ReadOptions.ArrayBuffer
+  );
+  const bytes = new Uint8Array(buffer);
+
+  const match = signatures.find(({ offset = 0, bytes: signature }) =>
+    signature.every((byte, i) => byte === null || bytes[offset + i] === byte)
+  );
+  if (match) return match.type;
+
+  const text = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+  if (
+    text.startsWith("<svg") ||
+    (text.startsWith("<?xml") && text.includes("<svg"))
+  ) {
+    return "image/svg+xml";
+  }
+  return undefined;
+}
+
+// "image/*" matches every image type.
+function matchesType(type: string, pattern: string) {
+  pattern = pattern.trim().toLowerCase();
+  if (pattern.endsWith("/*")) return type.startsWith(pattern.slice(0, -1));
+  return type === pattern;
+}
+
+// ========== Validation =======================
+
+/**
+ * @description Accept only files whose content matches one of the MIME types.
+ * The type is detected from the file's bytes, and the returned file carries
+ * the detected type.
+ * @example acceptTypes(["image/png", "image/jpeg", "application/pdf"])
+ * @param types MIME types or wildcards such as "image/*".
+ * @param options allowUnknown passes files whose type cannot be detected
+ * when their reported type matches.
+ * @returns
+ */
+export function acceptTypes(
+  types: string[],
+  { allowUnknown = false }: { allowUnknown?: boolean } = {}
+): FileProcessor {
+  return async (file) => {
+    const detected = await sniffMimeType(file);
+    const type = detected ?? (allowUnknown ? file.type : "");
+
+    if (!type || !types.some((pattern) => matchesType(type, pattern))) {
+      throw createFileError(
+        "invalid-type",
+        file,
+        `${file.name} is not an accepted file type`,
+        { limit: types, actual: detected ?? "unknown" }
+      );
+    }
+
+    if (type === file.type) return file;
+    return new File([file], file.name, {
+      type,
+      lastModified: file.lastModified,
+    });
+  };
+}
+
+/**
+ * @description Reject files outside a size range.
+ * @param limits Sizes in bytes.
+ * @returns
+ */
+export function limitFileSize({
+  min = 0,
+  max = Infinity,
+}: {
+  min?: number;
+  max?: number;
+}): FileProcessor {
+  return (file) => {
+    if (file.size > max) {
+      throw createFileError(
+        "file-too-large",
+        file,
+        `${file.name} is larger than ${max} bytes`,
+        { limit: max, actual: file.size }
+      );
+    }
+    if (file.size < min) {
+      throw createFileError(
+        "file-too-small",
+        file,
+        `${file.name} is smaller than ${min} bytes`,
+        { limit: min, actual: file.size }
+      );
+    }
+    return file;
+  };
+}
+
+// ========== Images =======================
+
+// Types the canvas can decode and re-encode without losing animation.
+const processableImages = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/bmp",
+];
+
+/**
+ * @description Read the EXIF orientation (1 to 8) of a JPEG.
+ * @param file
+ * @returns 1 (upright) when the file has no orientation.
+ */
+export async function readExifOrientation(file: Blob) {
+  // EXIF lives in an APP1 segment near the start of the file.
+  const buffer = await readFile<ArrayBuffer>(
+    file.slice(0, 128 * 1024),
+    ReadOptions.ArrayBuffer
+  );
+  const view = new DataView(buffer);
+
+  try {
+    if (view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Start of scan: image data follows, no more metadata.
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+
+      // "Exif\0\0" followed by a TIFF header.
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, little);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata.
+  }
+  return 1;
+}
+
+// Browsers that apply EXIF orientation when decoding report image-orientation
+// "from-image" (the default since Chrome 81, Firefox 77 and Safari 13.1).
+function browserAppliesOrientation() {
+  if (typeof document === "undefined") return true;
+  return (
+    getComputedStyle(document.documentElement).getPropertyValue(
+      "image-orientation"
+    ) === "from-image"
+  );
+}
+
+interface DecodedImage {
+  bitmap: ImageBitmap;
+  /** Orientation still to apply when drawing (1 if the browser applied it). */
+  orientation: number;
+  /** Upright size. */
+  width: number;
+  height: number;
+}
+
+async function decodeImage(file: File): Promise<DecodedImage> {
+  const exif = await readExifOrientation(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw createFileError(
+      "invalid-image",
+      file,
+      `${file.name} could not be decoded as an image`
+    );
+  }
+
+  const orientation = browserAppliesOrientation() ? 1 : exif;
+  const swap = orientation >= 5;
+  return {
+    bitmap,
+    orientation,
+    width: swap ? bitmap.height : bitmap.width,
+    height: swap ? bitmap.width : bitmap.height,
+  };
+}
+
+/**
+ * @description Get the upright width and height of an image file.
+ * @param file
+ * @returns
+ */
+export async function getImageSize(file: File) {
+  const { bitmap, width, height } = await decodeImage(file);
+  bitmap.close();
+  return { width, height };
+}
+
+/**
+ * @description Reject images outside a range of dimensions. Files that are
+ * not images pass through.
+ * @param limits Dimensions in pixels.
+ * @returns
+ */
+export function limitImageDimensions({
+  minWidth = 0,
+  minHeight = 0,
+  maxWidth = Infinity,
+  maxHeight = Infinity,
+}: {
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+}): FileProcessor {
+  return async (file) => {
+    const type = await sniffMimeType(file);
+    if (!type?.startsWith("image/") || type === "image/svg+xml") return file;
+
+    const { width, height } = await getImageSize(file);
+    const size = `${width}x${height}`;
+
+    if (width > maxWidth || height > maxHeight) {
+      throw createFileError(
+        "image-too-large",
+        file,
+        `${file.name} is larger than ${maxWidth}x${maxHeight}`,
+        { limit: `${maxWidth}x${maxHeight}`, actual: size }
+      );
+    }
+    if (width < minWidth || height < minHeight) {
+      throw createFileError(
+        "image-too-small",
+        file,
+        `${file.name} is smaller than ${minWidth}x${minHeight}`,
+        { limit: `${minWidth}x${minHeight}`, actual: size }
+      );
+    }
+    return file;
+  };
+}
+
+export interface ProcessImageOptions {
+  /** Longest side in pixels. Larger images are downscaled. */
+  maxDimension?: number;
+  /** Output type. Defaults to "image/jpeg". */
+  type?: "image/jpeg" | "image/webp" | "image/png";
+  /** Encoder quality from 0 to 1. Defaults to 0.85. */
+  quality?: number;
+  /** Bake the EXIF orientation into the pixels. Defaults to true. */
+  fixOrientation?: boolean;
+  /** Background for transparent pixels when encoding JPEG. */
+  background?: string;
+}
+
+const extensions: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/png": "png",
+};
+
+/**
+ * @description Correct EXIF orientation, downscale and re-encode images.
+ * GIF, SVG and files that are not images pass through unchanged, as do
+ * images that would not get smaller or change.
+ * @example processImage({ maxDimension: 2048, type: "image/webp", quality: 0.8 })
+ * @param options
+ * @returns
+ */
+export function processImage({
+  maxDimension = Infinity,
+  type = "image/jpeg",
+  quality = 0.85,
+  fixOrientation = true,
+  background = "#fff",
+}: ProcessImageOptions = {}): FileProcessor {
+  return async (file) => {
+    const sourceType = await sniffMimeType(file);
+    if (!sourceType || !processableImages.includes(sourceType)) return file;
+
+    const image = await decodeImage(file);
+    const { bitmap } = image;
+    const orientation = fixOrientation ? image.orientation : 1;
+    const upright = orientation >= 5;
+    const width = upright ? bitmap.height : bitmap.width;
+    const height = upright ? bitmap.width : bitmap.height;
+
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    const resized = scale < 1;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+
+    if (type === "image/jpeg") {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Size of the image before rotation.
+    const w = upright ? canvas.height : canvas.width;
+    const h = upright ? canvas.width : canvas.height;
+    switch (orientation) {
+      case 2:
+        ctx.transform(-1, 0, 0, 1, w, 0);
+        break;
+      case 3:
+        ctx.transform(-1, 0, 0, -1, w, h);
+        break;
+      case 4:
+        ctx.transform(1, 0, 0, -1, 0, h);
+        break;
+      case 5:
+        ctx.transform(0, 1, 1, 0, 0, 0);
+        break;
+      case 6:
+        ctx.transform(0, 1, -1, 0, h, 0);
+        break;
+      case 7:
+        ctx.transform(0, -1, -1, 0, h, w);
+        break;
+      case 8:
+        ctx.transform(0, -1, 1, 0, 0, w);
+        break;
+    }
+
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, w, h);
+    bitmap.close();
+
+    let blob = await canvasToBlob(canvas, type, quality);
+    // Browsers fall back to PNG for types they cannot encode (e.g. WebP in
+    // older Safari); JPEG is supported everywhere.
+    if (blob.type !== type) {
+      blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    }
+
+    const changed = resized || orientation !== 1 || sourceType !== blob.type;
+    if (!changed && blob.size >= file.size) return file;
+
+    const name = file.name.replace(/\.[^.]*$/, "") || "image";
+    return new File([blob], `${name}.${extensions[blob.type] ?? "png"}`, {
+      type: blob.type,
+      lastModified: file.lastModified,
+    });
+  };
+}
+
+// ========== Pipeline =======================
+
+/**
+ * @description Run files through a pipeline of processors.
+ * Files are processed one at a time to bound memory use when decoding large
+ * images. A file rejected by a processor skips the remaining processors.
+ * @example
+ * const { files, errors } = await processFiles(input.files!, {
+ *   maxFiles: 10,
+ *   processors: [
+ *     acceptTypes(["image/*"]),
+ *     limitFileSize({ max: 20 * 1024 * 1024 }),
+ *     processImage({ maxDimension: 2048 }),
+ *   ],
+ * });
+ * @param files
+ * @param options
+ * @returns The accepted files and an error for each rejected one.
+ */
+export async function processFiles(
+  files: File[] | FileList,
+  { processors = [], maxFiles = Infinity, signal }: ProcessFilesOptions = {}
+): Promise<ProcessFilesResult> {
+  const list = Array.from(files);
+  const result: ProcessFilesResult = { files: [], errors: [] };
+
+  for (let index = 0; index < list.length; index++) {
+    signal?.throwIfAborted();
+    let file = list[index];
+
+    if (index >= maxFiles) {
+      result.errors.push(
+        createFileError(
+          "too-many-files",
+          file,
+          `Only ${maxFiles} files can be uploaded at once`,
+          { limit: maxFiles, actual: list.length }
+        )
+      );
+      continue;
+    }
+
+    try {
+      for (const processor of processors) {
+        file = await processor(file, { index, count: list.length, signal });
+      }
+      result.files.push(file);
+    } catch (error) {
+      if (!isFileValidationError(error)) throw error;
+      result.errors.push(error);
+    }
+  }
+
+  return result;
+}
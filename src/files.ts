@@ -0,0 +1,44 @@
+/**
+ * Reading File and Blob objects.
+ * Path: src/files.ts
+ */
+
+/** How `readFile` reads a file. */
+export enum ReadOptions {
+  ArrayBuffer,
+  BinaryString,
+  DataURL,
+  Text,
+}
+
+/**
+ * Read File object.
+ */
+export async function readFile<T extends ArrayBuffer | string>(
+  file: Blob,
+  option?: ReadOptions
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = (error) => reject(error);
+
+    switch (option) {
+      case ReadOptions.ArrayBuffer:
+        reader.readAsArrayBuffer(file);
+        break;
+      case ReadOptions.BinaryString:
+        reader.readAsBinaryString(file);
+        break;
+      case ReadOptions.DataURL:
+        reader.readAsDataURL(file);
+        break;
+      case ReadOptions.Text:
+        reader.readAsText(file);
+        break;
+      default:
+        reader.readAsArrayBuffer(file);
+        break;
+    }
+  });
+}
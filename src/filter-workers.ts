@@ -0,0 +1,304 @@
+/**
+ * Off-main-thread execution of filter pipelines with a pool of Web Workers.
+ * Path: src/filter-workers.ts
+ */
+
+import {
+  filterEngineSource,
+  runSteps,
+  stepRadius,
+  type FilterPipeline,
+  type FilterStep,
+} from "./filters";
+
+interface TileRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+  steps: readonly FilterStep[];
+}
+
+interface TileResponse {
+  id: number;
+  buffer?: ArrayBuffer;
+  error?: string;
+}
+
+interface Task {
+  id: number;
+  owner: object;
+  request: Omit<TileRequest, "id">;
+  resolve: (buffer: ArrayBuffer) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  task?: Task;
+}
+
+export interface FilterWorkerPoolOptions {
+  /** Number of workers. Defaults to navigator.hardwareConcurrency or 4. */
+  size?: number;
+  /**
+   * URL of a custom worker script. It must set
+   * `self.onmessage = onFilterWorkerMessage`.
+   * Defaults to a Blob URL generated from the filter engine.
+   */
+  workerUrl?: string | URL;
+}
+
+export interface WorkerRunOptions {
+  /** Cancel the run. Busy workers are terminated and replaced. */
+  signal?: AbortSignal;
+  /** Called with the fraction (0 to 1) of tiles completed. */
+  onProgress?: (progress: number) => void;
+  /** Rows per tile. Defaults to an even split over twice the pool size. */
+  tileHeight?: number;
+}
+
+export interface FilterWorkerPool {
+  readonly size: number;
+  /**
+   * Apply steps to an image. The source image is never modified.
+   * @returns A promise that resolves with a new ImageData.
+   */
+  run(
+    imageData: ImageData,
+    steps: readonly FilterStep[],
+    options?: WorkerRunOptions
+  ): Promise<ImageData>;
+  /** Stop all workers and reject pending runs. */
+  terminate(): void;
+}
+
+/**
+ * @description Worker message handler. Runs the steps on a tile and transfers
+ * the result back.
+ * @param event
+ */
+export function onFilterWorkerMessage(event: MessageEvent<TileRequest>) {
+  const { id, buffer, width, height, steps } = event.data;
+
+  try {
+    const data = new Uint8ClampedArray(buffer);
+    const scratch = new Uint8ClampedArray(data.length);
+    const result = runSteps(data, width, height, steps, [data, scratch]);
+    const response: TileResponse = { id, buffer: result.buffer as ArrayBuffer };
+    self.postMessage(response, { transfer: [response.buffer!] });
+  } catch (error) {
+    const response: TileResponse = { id, error: String(error) };
+    self.postMessage(response);
+  }
+}
+
+function workerSource() {
+  return [
+    filterEngineSource(),
+    String(onFilterWorkerMessage),
+    `self.onmessage = ${onFilterWorkerMessage.name};`,
+  ].join("\n");
+}
+
+function abortReason(signal: AbortSignal) {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+/**
+ * @description Create a pool of workers that run filter steps on tiles.
+ * The image is split into full-width strips. Each strip carries enough extra
+ * rows above and below (the sum of the kernel radii) for convolution steps to
+ * produce the same output as a single-threaded run. Pipelines with a "wrap"
+ * border run as one tile, since wrapping needs the opposite image edge.
+ * @param options
+ * @returns
+ */
+export function createFilterWorkerPool({
+  size = navigator.hardwareConcurrency || 4,
+  workerUrl,
+}: FilterWorkerPoolOptions = {}): FilterWorkerPool {
+  const objectUrl = workerUrl
+    ? undefined
+    : URL.createObjectURL(
+        new Blob([workerSource()], { type: "text/javascript" })
+      );
+  const url = workerUrl ?? objectUrl!;
+
+  const queue: Task[] = [];
+  const slots: Slot[] = [];
+  let nextId = 0;
+  let terminated = false;
+
+  const dispatch = () => {
+    for (const slot of slots) {
+      if (slot.task || queue.length === 0) continue;
+
+      const task = queue.shift()!;
+      const message: TileRequest = { id: task.id, ...task.request };
+      slot.task = task;
+      slot.worker.postMessage(message, [message.buffer]);
+    }
+  };
+
+  const spawn = (): Slot => {
+    const slot: Slot = { worker: new Worker(url) };
+
+    slot.worker.onmessage = (event: MessageEvent<TileResponse>) => {
+      const { id, buffer, error } = event.data;
+      const task = slot.task;
+      if (!task || task.id !== id) return;
+
+      slot.task = undefined;
+      if (error !== undefined || !buffer) {
+        task.reject(new Error(error || "Filter worker returned no data"));
+      } else {
+        task.resolve(buffer);
+      }
+      dispatch();
+    };
+
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      const task = slot.task;
+      replace(slot);
+      task?.reject(new Error(event.message || "Filter worker failed"));
+      dispatch();
+    };
+
+    return slot;
+  };
+
+  const replace = (slot: Slot) => {
+    slot.worker.terminate();
+    slots[slots.indexOf(slot)] = spawn();
+  };
+
+  // Drop every queued and in-flight task of a run.
+  const cancel = (owner: object) => {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i].owner === owner) queue.splice(i, 1);
+    }
+
+    slots
+      .filter((slot) => slot.task?.owner === owner)
+      .forEach((slot) => !terminated && replace(slot));
+  };
+
+  for (let i = 0; i < size; i++) {
+    slots.push(spawn());
+  }
+
+  const run = (
+    imageData: ImageData,
+    steps: readonly FilterStep[],
+    { signal, onProgress, tileHeight }: WorkerRunOptions = {}
+  ) => {
+    return new Promise<ImageData>((resolve, reject) => {
+      if (terminated) {
+        throw new Error("Filter worker pool has been terminated");
+      }
+      signal?.throwIfAborted();
+
+      const { data, width, height } = imageData;
+      const output = new ImageData(width, height);
+      const rowBytes = width * 4;
+      const halo = steps.reduce((total, step) => total + stepRadius(step), 0);
+      const wraps = steps.some(
+        (step) => step.filter === "convolve" && step.options?.border === "wrap"
+      );
+      const rows = wraps
+        ? height
+        : Math.max(1, tileHeight ?? Math.ceil(height / (slots.length * 2)));
+
+      const owner = {};
+      const total = Math.ceil(height / rows);
+      let remaining = total;
+
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+      const fail = (reason: unknown) => {
+        cancel(owner);
+        cleanup();
+        reject(reason);
+      };
+      const onAbort = () => fail(abortReason(signal!));
+
+      if (total === 0) {
+        resolve(output);
+        return;
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      for (let y0 = 0; y0 < height; y0 += rows) {
+        const y1 = Math.min(height, y0 + rows);
+        const top = Math.max(0, y0 - halo);
+        const bottom = Math.min(height, y1 + halo);
+        const buffer = data.slice(top * rowBytes, bottom * rowBytes)
+          .buffer as ArrayBuffer;
+
+        queue.push({
+          id: nextId++,
+          owner,
+          request: { buffer, width, height: bottom - top, steps },
+          resolve(result) {
+            const core = new Uint8ClampedArray(
+              result,
+              (y0 - top) * rowBytes,
+              (y1 - y0) * rowBytes
+            );
+            output.data.set(core, y0 * rowBytes);
+
+            remaining--;
+            onProgress?.((total - remaining) / total);
+
+            if (remaining === 0) {
+              cleanup();
+              resolve(output);
+            }
+          },
+          reject: fail,
+        });
+      }
+
+      dispatch();
+    });
+  };
+
+  const terminate = () => {
+    if (terminated) return;
+    terminated = true;
+
+    slots.forEach((slot) => {
+      slot.worker.terminate();
+      slot.task?.reject(new Error("Filter worker pool has been terminated"));
+    });
+    queue
+      .splice(0)
+      .forEach((task) =>
+        task.reject(new Error("Filter worker pool has been terminated"))
+      );
+
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  };
+
+  return { size, run, terminate };
+}
+
+let defaultPool: FilterWorkerPool | undefined;
+
+/**
+ * @description Run a pipeline off the main thread.
+ * @example await runInWorkers(pipeline(imageData).blur(2), { onProgress })
+ * @param chain Pipeline built with `pipeline()`.
+ * @param options Run options. Pass `pool` to use a specific pool; otherwise a
+ * shared pool is created on first use.
+ * @returns A promise that resolves with a new ImageData.
+ */
+export function runInWorkers(
+  chain: FilterPipeline,
+  { pool, ...options }: WorkerRunOptions & { pool?: FilterWorkerPool } = {}
+) {
+  pool ??= defaultPool ??= createFilterWorkerPool();
+  return pool.run(chain.source, chain.steps, options);
+}
@@ -0,0 +1,412 @@
+/**
+ * Image filters built on a general convolution engine.
+ * Path: src/filters.ts
+ */
+
+/**
+ * How pixels outside the image are sampled by a convolution kernel.
+ * - clamp: repeat the nearest edge pixel.
+ * - wrap: tile the image (sample from the opposite edge).
+ * - mirror: reflect about the edge pixel without repeating it (-1 -> 1).
+ * - transparent: treat outside pixels as rgba(0, 0, 0, 0).
+ */
+export type BorderMode = "clamp" | "wrap" | "mirror" | "transparent";
+
+/**
+ * A convolution kernel. Weights are stored row by row and applied as written
+ * (the kernel is not flipped). Width and height must be odd.
+ */
+export interface Kernel {
+  width: number;
+  height: number;
+  weights: number[];
+}
+
+export interface ConvolveOptions {
+  /** Edge handling. Defaults to "clamp". */
+  border?: BorderMode;
+  /** Every weighted sum is divided by this value. Defaults to 1. */
+  divisor?: number;
+  /** Added to every channel after division. Defaults to 0. */
+  bias?: number;
+  /** Convolve the alpha channel too. Defaults to false (alpha is copied). */
+  alpha?: boolean;
+}
+
+/**
+ * A single pipeline step. Steps are plain data so that they can be posted to
+ * workers and replayed on any buffer.
+ */
+export type FilterStep =
+  | { filter: "grayscale" }
+  | { filter: "sepia" }
+  | { filter: "invert" }
+  | { filter: "brightness"; brightness: number }
+  | { filter: "contrast"; contrast: number }
+  | { filter: "convolve"; kernel: Kernel; options?: ConvolveOptions };
+
+/**
+ * @description Create a box blur kernel.
+ * @param radius Number of pixels on each side of the center.
+ * @returns
+ */
+export function boxBlurKernel(radius: number): Kernel {
+  const size = radius * 2 + 1;
+  return {
+    width: size,
+    height: size,
+    weights: new Array(size * size).fill(1 / (size * size)),
+  };
+}
+
+/**
+ * @description Create a sharpen kernel (unsharp mask with an amount of 1).
+ * The weights sum to 1, so flat areas keep their brightness.
+ * @param radius Number of pixels on each side of the center.
+ * @returns
+ */
+export function sharpenKernel(radius: number): Kernel {
+  const size = radius * 2 + 1;
+  const weights = new Array(size * size).fill(-1 / (size * size));
+  weights[radius * size + radius] += 2;
+  return { width: size, height: size, weights };
+}
+
+/** Laplacian kernel used for edge detection. */
+export const edgeDetectionKernel: Kernel = {
+  width: 3,
+  height: 3,
+  weights: [-1, -1, -1, -1, 8, -1, -1, -1, -1],
+};
+
+function validateKernel(kernel: Kernel) {
+  const { width, height, weights } = kernel;
+  if (width % 2 === 0 || height % 2 === 0) {
+    throw new Error(`Kernel dimensions must be odd, got ${width}x${height}`);
+  }
+
+  if (weights.length !== width * height) {
+    throw new Error(
+      `Kernel expects ${width * height} weights, got ${weights.length}`
+    );
+  }
+}
+
+// Map a coordinate that may lie outside [0, size) back into the image.
+// Returns -1 when the sample should be treated as transparent.
+function resolveCoordinate(c: number, size: number, border: BorderMode) {
+  if (c >= 0 && c < size) return c;
+
+  switch (border) {
+    case "clamp":
+      return c < 0 ? 0 : size - 1;
+    case "wrap":
+      return ((c % size) + size) % size;
+    case "mirror": {
+      if (size === 1) return 0;
+      const period = 2 * (size - 1);
+      const m = Math.abs(c) % period;
+      return m < size ? m : period - m;
+    }
+    case "transparent":
+      return -1;
+  }
+}
+
+// Precompute source coordinates for [-radius, size + radius).
+function borderMap(size: number, radius: number, border: BorderMode) {
+  const map = new Int32Array(size + radius * 2);
+  for (let i = 0; i < map.length; i++) {
+    map[i] = resolveCoordinate(i - radius, size, border);
+  }
+  return map;
+}
+
+/**
+ * @description Convolve an RGBA buffer with a kernel.
+ * src and dst must be distinct buffers of width * height * 4 bytes.
+ * @param src Source pixels. Never modified.
+ * @param dst Destination pixels.
+ * @param width Image width in pixels.
+ * @param height Image height in pixels.
+ * @param kernel Convolution kernel.
+ * @param options Border mode, divisor, bias and alpha handling.
+ */
+export function convolveBuffer(
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  width: number,
+  height: number,
+  kernel: Kernel,
+  options: ConvolveOptions = {}
+) {
+  validateKernel(kernel);
+
+  if (src === dst) {
+    throw new Error("convolveBuffer: src and dst must be different buffers");
+  }
+
+  const { border = "clamp", divisor = 1, bias = 0, alpha = false } = options;
+  const { width: kw, height: kh, weights } = kernel;
+  const rx = kw >> 1;
+  const ry = kh >> 1;
+  const xMap = borderMap(width, rx, border);
+  const yMap = borderMap(height, ry, border);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let ky = 0; ky < kh; ky++) {
+        const sy = yMap[y + ky];
+        if (sy < 0) continue;
+        const row = sy * width;
+
+        for (let kx = 0; kx < kw; kx++) {
+          const sx = xMap[x + kx];
+          const w = weights[ky * kw + kx];
+          if (sx < 0 || w === 0) continue;
+
+          const i = (row + sx) * 4;
+          r += src[i] * w;
+          g += src[i + 1] * w;
+          b += src[i + 2] * w;
+          a += src[i + 3] * w;
+        }
+      }
+
+      const o = (y * width + x) * 4;
+      dst[o] = r / divisor + bias;
+      dst[o + 1] = g / divisor + bias;
+      dst[o + 2] = b / divisor + bias;
+      dst[o + 3] = alpha ? a / divisor + bias : src[o + 3];
+    }
+  }
+}
+
+/**
+ * @description Convolve an image with an arbitrary kernel.
+ * @param imageData Source image. Never modified.
+ * @param kernel Convolution kernel.
+ * @param options Border mode, divisor, bias and alpha handling.
+ * @returns A new ImageData with the result.
+ */
+export function convolve(
+  imageData: ImageData,
+  kernel: Kernel,
+  options?: ConvolveOptions
+) {
+  const { data, width, height } = imageData;
+  const output = new ImageData(width, height);
+  convolveBuffer(data, output.data, width, height, kernel, options);
+  return output;
+}
+
+/**
+ * @description Number of pixels a step reads beyond the pixel it writes.
+ * @param step
+ * @returns
+ */
+export function stepRadius(step: FilterStep) {
+  if (step.filter !== "convolve") return 0;
+  return Math.max(step.kernel.width >> 1, step.kernel.height >> 1);
+}
+
+/**
+ * @description Apply a single step from src into dst.
+ * src and dst must be distinct buffers of width * height * 4 bytes.
+ */
+export function applyStep(
+  step: FilterStep,
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  width: number,
+  height: number
+) {
+  const length = width * height * 4;
+
+  switch (step.filter) {
+    case "grayscale":
+      for (let i = 0; i < length; i += 4) {
+        const v = 0.2126 * src[i] + 0.7152 * src[i + 1] + 0.0722 * src[i + 2];
+        dst[i] = dst[i + 1] = dst[i + 2] = v;
+        dst[i + 3] = src[i + 3];
+      }
+      break;
+    case "sepia":
+      for (let i = 0; i < length; i += 4) {
+        const r = src[i];
+        const g = src[i + 1];
+        const b = src[i + 2];
+
+        dst[i] = r * 0.393 + g * 0.769 + b * 0.189;
+        dst[i + 1] = r * 0.349 + g * 0.686 + b * 0.168;
+        dst[i + 2] = r * 0.272 + g * 0.534 + b * 0.131;
+        dst[i + 3] = src[i + 3];
+      }
+      break;
+    case "invert":
+      for (let i = 0; i < length; i += 4) {
+        dst[i] = 255 - src[i];
+        dst[i + 1] = 255 - src[i + 1];
+        dst[i + 2] = 255 - src[i + 2];
+        dst[i + 3] = src[i + 3];
+      }
+      break;
+    case "brightness": {
+      const { brightness } = step;
+      for (let i = 0; i < length; i += 4) {
+        dst[i] = src[i] + brightness;
+        dst[i + 1] = src[i + 1] + brightness;
+        dst[i + 2] = src[i + 2] + brightness;
+        dst[i + 3] = src[i + 3];
+      }
+      break;
+    }
+    case "contrast": {
+      const { contrast } = step;
+      const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+      for (let i = 0; i < length; i += 4) {
+        dst[i] = factor * (src[i] - 128) + 128;
+        dst[i + 1] = factor * (src[i + 1] - 128) + 128;
+        dst[i + 2] = factor * (src[i + 2] - 128) + 128;
+        dst[i + 3] = src[i + 3];
+      }
+      break;
+    }
+    case "convolve":
+      convolveBuffer(src, dst, width, height, step.kernel, step.options);
+      break;
+  }
+}
+
+/**
+ * @description Run a list of steps over a buffer.
+ * Two buffers are swapped between steps, so each step reads a stable input.
+ * @param data Source pixels. Never modified.
+ * @param width Image width in pixels.
+ * @param height Image height in pixels.
+ * @param steps Steps to apply in order.
+ * @param buffers Optional scratch buffers to reuse. Must be data.length long.
+ * @returns The buffer holding the result (one of the scratch buffers).
+ */
+export function runSteps(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  steps: readonly FilterStep[],
+  buffers?: [Uint8ClampedArray, Uint8ClampedArray]
+) {
+  let current = buffers?.[0] ?? new Uint8ClampedArray(data.length);
+  let next = buffers?.[1] ?? new Uint8ClampedArray(data.length);
+  current.set(data);
+
+  for (const step of steps) {
+    applyStep(step, current, next, width, height);
+    [current, next] = [next, current];
+  }
+
+  return current;
+}
+
+/**
+ * @description JavaScript source of the engine (runSteps and its helpers).
+ * Used to spawn filter workers from a Blob URL without a separate bundle entry.
+ * @returns
+ */
+export function filterEngineSource() {
+  return [
+    resolveCoordinate,
+    borderMap,
+    validateKernel,
+    convolveBuffer,
+    applyStep,
+    runSteps,
+  ]
+    .map(String)
+    .join("\n");
+}
+
+export interface FilterPipeline {
+  /** Image the pipeline reads from. */
+  readonly source: ImageData;
+  /** Steps queued so far. */
+  readonly steps: readonly FilterStep[];
+  /** Total number of pixels the queued steps read beyond each output pixel. */
+  readonly radius: number;
+  grayscale(): FilterPipeline;
+  sepia(): FilterPipeline;
+  invert(): FilterPipeline;
+  brightness(brightness: number): FilterPipeline;
+  contrast(contrast: number): FilterPipeline;
+  blur(radius: number, options?: ConvolveOptions): FilterPipeline;
+  sharpen(radius: number, options?: ConvolveOptions): FilterPipeline;
+  edgeDetect(options?: ConvolveOptions): FilterPipeline;
+  convolve(kernel: Kernel, options?: ConvolveOptions): FilterPipeline;
+  step(step: FilterStep): FilterPipeline;
+  /**
+   * Apply the queued steps. The source image is never modified.
+   * @param target ImageData to write the result into (may be the source).
+   * Defaults to a new ImageData.
+   */
+  run(target?: ImageData): ImageData;
+}
+
+/**
+ * @description Build a chain of filters over an image.
+ * Scratch buffers are allocated once and reused between steps and runs.
+ * @example pipeline(imageData).grayscale().blur(2).sharpen(1).run()
+ * @param imageData Source image.
+ * @returns
+ */
+export function pipeline(imageData: ImageData): FilterPipeline {
+  const { data, width, height } = imageData;
+  const steps: FilterStep[] = [];
+  let buffers: [Uint8ClampedArray, Uint8ClampedArray] | undefined;
+
+  const chain: FilterPipeline = {
+    source: imageData,
+    steps,
+    get radius() {
+      return steps.reduce((total, step) => total + stepRadius(step), 0);
+    },
+    grayscale: () => chain.step({ filter: "grayscale" }),
+    sepia: () => chain.step({ filter: "sepia" }),
+    invert: () => chain.step({ filter: "invert" }),
+    brightness: (brightness) =>
+      chain.step({ filter: "brightness", brightness }),
+    contrast: (contrast) => chain.step({ filter: "contrast", contrast }),
+    blur: (radius, options) => chain.convolve(boxBlurKernel(radius), options),
+    sharpen: (radius, options) =>
+      chain.convolve(sharpenKernel(radius), options),
+    edgeDetect: (options) => chain.convolve(edgeDetectionKernel, options),
+    convolve(kernel, options) {
+      validateKernel(kernel);
+      return chain.step({ filter: "convolve", kernel, options });
+    },
+    step(step) {
+      steps.push(step);
+      return chain;
+    },
+    run(target) {
+      if (target && (target.width !== width || target.height !== height)) {
+        throw new Error("pipeline: target must match the source dimensions");
+      }
+
+      buffers ??= [
+        new Uint8ClampedArray(data.length),
+        new Uint8ClampedArray(data.length),
+      ];
+
+      const result = runSteps(data, width, height, steps, buffers);
+      const output = target ?? new ImageData(width, height);
+      output.data.set(result);
+      return output;
+    },
+  };
+
+  return chain;
+}
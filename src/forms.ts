@@ -0,0 +1,731 @@
+/**
+ * Form controller: serialization, validation with inline errors, submit
+ * over fetch, dirty tracking and drafts.
+ * Path: src/forms.ts
+ */
+
+import { createEmitter, type Emitter } from "./events";
+import { http, isHttpError, readResponseBody, type HttpClient } from "./http";
+import { createStore, type Store } from "./storage";
+
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/** The value of a field: an array for multi-selects, checkbox groups and multiple file inputs. */
+export type FieldValue = string | File | (string | File)[] | undefined;
+
+/**
+ * A validation rule. Returns an error message, or false for a generic one,
+ * when the value is invalid. Rules may be async. A rule that throws fails
+ * with the generic message and emits `error`.
+ */
+export type FormRule<T = Record<string, unknown>> = (
+  value: FieldValue,
+  values: T
+) =>
+  | string
+  | boolean
+  | undefined
+  | void
+  | Promise<string | boolean | undefined | void>;
+
+/** Saved field values of a draft. Files and passwords are not saved. */
+export type FormDraft = [name: string, value: string][];
+
+export interface FormSubmitContext {
+  formData: FormData;
+  signal: AbortSignal;
+  /** The button that submitted the form, if any. */
+  submitter?: HTMLElement | null;
+}
+
+export interface FormControllerOptions<T> {
+  /** Custom rules by field name, run after the built-in HTML constraints pass. */
+  rules?: Record<string, FormRule<T> | FormRule<T>[]>;
+  /**
+   * Messages for the built-in constraints, e.g. `{ valueMissing: "Required" }`.
+   * Defaults to the browser's messages. `customError` is used for rules that
+   * return false.
+   */
+  messages?: Partial<Record<keyof ValidityState, string>>;
+  /**
+   * When to validate a field: when it loses focus (default), on every input,
+   * or only on submit. A field showing an error is validated on every input.
+   */
+  validateOn?: "blur" | "input" | "submit";
+  /**
+   * Send the form. Defaults to a request to the form's action with its
+   * method, sent with `client`.
+   */
+  submit?: (values: T, context: FormSubmitContext) => Promise<unknown>;
+  /** Client for the default submit. Defaults to `http`. */
+  client?: HttpClient;
+  /** Send the values as JSON instead of form data. */
+  json?: boolean;
+  /** Ask for confirmation before leaving the page with unsaved changes. */
+  warnOnUnsaved?: boolean;
+  /**
+   * Save unsent changes and restore them when the form is created again.
+   * Cleared after a successful submit. Files and passwords are not saved.
+   */
+  draft?: {
+    /** Key of the draft, unique per form. */
+    key: string;
+    /** Defaults to a localStorage store in the "form-drafts" namespace. */
+    store?: Store<Record<string, FormDraft>>;
+    /** Ms to wait after the last change before saving. Defaults to 500. */
+    delay?: number;
+  };
+  /** Class of the inline error elements. Defaults to "form-error". */
+  errorClassName?: string;
+}
+
+export interface FormEvents<T> {
+  submit: { values: T };
+  success: { values: T; response: unknown };
+  error: { values: T; error: unknown };
+  invalid: { errors: Record<string, string> };
+  dirty: { dirty: boolean };
+  restore: { draft: FormDraft };
+}
+
+export interface FormController<T> {
+  readonly form: HTMLFormElement;
+  on: Emitter<FormEvents<T>>["on"];
+  /** The current values, nested by field name. */
+  values(): T;
+  /** Validate every field and render the errors. */
+  validate(): Promise<boolean>;
+  validateField(name: string): Promise<boolean>;
+  /** Show errors, e.g. from the server. Undefined clears a field's error. */
+  setErrors(errors: Record<string, string | string[] | undefined>): void;
+  clearErrors(): void;
+  /** The error message of each invalid field. */
+  errors(): Record<string, string>;
+  /**
+   * Validate and send the form. Rejects nothing: failures are emitted as
+   * `invalid` or `error`.
+   * @returns Whether the form was sent successfully.
+   */
+  submit(submitter?: HTMLElement | null): Promise<boolean>;
+  isSubmitting(): boolean;
+  isDirty(): boolean;
+  /** Treat the current values as saved. */
+  markClean(): void;
+  clearDraft(): Promise<void>;
+  /** Remove listeners, error elements and the unsaved-changes warning. */
+  destroy(): void;
+}
+
+const VALIDITY_FLAGS: (keyof ValidityState)[] = [
+  "valueMissing",
+  "typeMismatch",
+  "patternMismatch",
+  "tooLong",
+  "tooShort",
+  "rangeUnderflow",
+  "rangeOverflow",
+  "stepMismatch",
+  "badInput",
+  "customError",
+];
+
+// Names that would change Object.prototype when used as keys.
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// "user[address][city]", "user.address.city" and "tags[]" style names.
+function parseName(name: string) {
+  const segments: string[] = [];
+  name.replace(/\[([^\]]*)\]|[^.[\]]+/g, (match, bracket?: string) => {
+    segments.push(bracket ?? match);
+    return "";
+  });
+  return segments;
+}
+
+function setPath(
+  target: Record<string, unknown>,
+  name: string,
+  value: unknown,
+  multiple: boolean
+) {
+  const segments = parseName(name);
+  if (segments.length === 0 || segments.some((s) => UNSAFE_KEYS.has(s))) {
+    return;
+  }
+
+  type Container = Record<string, unknown> | unknown[];
+  let node: Container = target;
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    // Numeric segments index arrays like object keys.
+    const object = node as Record<string, unknown>;
+
+    if (last) {
+      if (segment === "" && Array.isArray(node)) node.push(value);
+      else if (multiple) ((object[segment] ??= []) as unknown[]).push(value);
+      else if (Object.hasOwn(object, segment)) {
+        // A repeated name collects its values.
+        object[segment] = [object[segment]].flat().concat([value]);
+      } else object[segment] = value;
+      return;
+    }
+
+    const next = segments[i + 1];
+    const container: Container = next === "" || /^\d+$/.test(next) ? [] : {};
+    if (segment === "" && Array.isArray(node)) {
+      node.push(container);
+      node = container;
+    } else {
+      object[segment] ??= container;
+      node = object[segment] as Container;
+    }
+  });
+}
+
+function isField(element: Element): element is FieldElement {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  );
+}
+
+function fieldsOf(form: HTMLFormElement, name?: string) {
+  return Array.from(form.elements).filter(
+    (element): element is FieldElement =>
+      isField(element) && !!element.name && (!name || element.name === name)
+  );
+}
+
+// Empty file inputs still add an empty File to FormData.
+const isEmptyFile = (value: FormDataEntryValue) =>
+  value instanceof File && !value.name && value.size === 0;
+
+function isMultiple(fields: FieldElement[]) {
+  return (
+    fields.some(
+      (field) =>
+        (field instanceof HTMLSelectElement || field.type === "file") &&
+        (field as HTMLSelectElement | HTMLInputElement).multiple
+    ) ||
+    (fields.length > 1 && fields.every((field) => field.type === "checkbox"))
+  );
+}
+
+/**
+ * @description Serialize a form to an object. Names like `user[name]`,
+ * `user.name`, `items[0][id]` and `tags[]` create nested objects and arrays.
+ * Multi-selects, checkbox groups and multiple file inputs give arrays;
+ * other repeated names give arrays when repeated. Unchecked boxes, disabled
+ * fields and empty file inputs are left out, as in a native submit.
+ * @example
+ * // <input name="user[name]"> <select name="tags[]" multiple>
+ * serializeForm(form); // { user: { name: "Ada" }, tags: ["a", "b"] }
+ * @param form
+ * @param submitter Include the name and value of this submit button.
+ * @returns
+ */
+export function serializeForm<T = Record<string, unknown>>(
+  form: HTMLFormElement,
+  submitter?: HTMLElement | null
+): T {
+  const values: Record<string, unknown> = {};
+  const multiple = new Map<string, boolean>();
+
+  new FormData(form, submitter).forEach((value, name) => {
+    if (isEmptyFile(value)) return;
+    if (!multiple.has(name)) {
+      multiple.set(name, isMultiple(fieldsOf(form, name)));
+    }
+    setPath(values, name, value, multiple.get(name)!);
+  });
+  return values as T;
+}
+
+// Fill fields from saved entries, as the browser restores a form.
+function applyDraft(form: HTMLFormElement, draft: FormDraft) {
+  const byName = new Map<string, string[]>();
+  draft.forEach(([name, value]) => {
+    byName.set(name, [...(byName.get(name) ?? []), value]);
+  });
+
+  const positions = new Map<string, number>();
+  fieldsOf(form).forEach((field) => {
+    const values = byName.get(field.name) ?? [];
+    if (field instanceof HTMLSelectElement) {
+      Array.from(field.options).forEach((option) => {
+        option.selected = values.includes(option.value);
+      });
+    } else if (field.type === "checkbox" || field.type === "radio") {
+      (field as HTMLInputElement).checked = values.includes(field.value);
+    } else if (
+      !["file", "password", "submit", "button", "reset", "image"].includes(
+        field.type
+      )
+    ) {
+      // Text-like fields sharing a name take the values in order.
+      const position = positions.get(field.name) ?? 0;
+      positions.set(field.name, position + 1);
+      field.value = values[position] ?? "";
+    }
+  });
+}
+
+let errorId = 0;
+
+// localStorage throws where storage is blocked, e.g. in some private modes;
+// drafts then only last until the page is reloaded.
+function createDraftStore() {
+  try {
+    return createStore<Record<string, FormDraft>>({ namespace: "form-drafts" });
+  } catch {
+    return createStore<Record<string, FormDraft>>({
+      namespace: "form-drafts",
+      backend: "memory",
+    });
+  }
+}
+
+/**
+ * @description Create a form controller.
+ * Validates with the HTML constraints (`required`, `pattern`, `min`, ...)
+ * and custom rules, rendering inline errors linked with `aria-invalid` and
+ * `aria-describedby`. Place `<p data-error-for="name">` in the form to
+ * choose where an error appears; otherwise it is inserted after the field.
+ * Submits with fetch and keeps the form locked until the request settles.
+ * A 422 response with `{ errors: { field: message } }` shows the errors.
+ * @example
+ * const form = createForm<{ email: string }>(document.querySelector("form")!, {
+ *   rules: {
+ *     email: async (value) =>
+ *       (await isTaken(value)) ? "This email is already registered" : undefined,
+ *   },
+ *   warnOnUnsaved: true,
+ *   draft: { key: "signup" },
+ * });
+ * form.on("success", ({ response }) => console.log(response));
+ * @param form
+ * @param options
+ * @returns
+ */
+export function createForm<T = Record<string, unknown>>(
+  form: HTMLFormElement,
+  {
+    rules = {},
+    messages = {},
+    validateOn = "blur",
+    submit: send,
+    client = http,
+    json = false,
+    warnOnUnsaved = false,
+    draft,
+    errorClassName = "form-error",
+  }: FormControllerOptions<T> = {}
+): FormController<T> {
+  const events = createEmitter<FormEvents<T>>();
+  const errors = new Map<string, string>();
+  const errorElements = new Map<string, HTMLElement>();
+  // Increases with every validation of a field, to drop stale async results.
+  const validations = new Map<string, number>();
+  // Fields the user has changed; only these are validated on blur.
+  const touched = new Set<string>();
+  // A store created here is destroyed with the form.
+  const ownDraftStore = draft && !draft.store ? createDraftStore() : undefined;
+  const draftStore = draft && (draft.store ?? ownDraftStore);
+
+  let submitting = false;
+  let dirty = false;
+  let controller: AbortController | undefined;
+  let draftTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const noValidate = form.noValidate;
+  // Errors are rendered inline instead of in the browser's bubbles.
+  form.noValidate = true;
+
+  // A comparable snapshot of the values; files by name and size.
+  const snapshot = () =>
+    JSON.stringify(
+      Array.from(new FormData(form)).map(([name, value]) => [
+        name,
+        typeof value === "string" ? value : `${value.name}:${value.size}`,
+      ])
+    );
+  let saved = snapshot();
+
+  const values = () => serializeForm<T>(form);
+
+  const fieldValue = (name: string): FieldValue => {
+    const entries = new FormData(form)
+      .getAll(name)
+      .filter((value) => !isEmptyFile(value));
+    if (isMultiple(fieldsOf(form, name))) return entries;
+    return entries.length > 1 ? entries : entries[0];
+  };
+
+  // ========== Errors =======================
+
+  const showError = (name: string, message?: string) => {
+    const fields = fieldsOf(form, name);
+    let element =
+      errorElements.get(name) ??
+      form.querySelector<HTMLElement>(
+        `[data-error-for="${CSS.escape(name)}"]`
+      ) ??
+      undefined;
+
+    if (!message) {
+      errors.delete(name);
+      fields.forEach((field) => field.removeAttribute("aria-invalid"));
+      if (element) {
+        element.textContent = "";
+        element.hidden = true;
+      }
+      return;
+    }
+
+    errors.set(name, message);
+    if (!element) {
+      element = document.createElement("p");
+      element.className = errorClassName;
+      // Radio and checkbox groups get one message after the last field.
+      const anchor = fields[fields.length - 1];
+      const label = anchor?.closest("label");
+      (label ?? anchor ?? form.lastElementChild)?.after(element);
+    }
+    if (!element.id) element.id = `form-error-${++errorId}`;
+    element.setAttribute("role", "alert");
+    element.textContent = message;
+    element.hidden = false;
+    errorElements.set(name, element);
+
+    fields.forEach((field) => {
+      field.setAttribute("aria-invalid", "true");
+      const describedBy = (field.getAttribute("aria-describedby") ?? "")
+        .split(/\s+/)
+        .filter(Boolean);
+      if (!describedBy.includes(element!.id)) {
+        describedBy.push(element!.id);
+        field.setAttribute("aria-describedby", describedBy.join(" "));
+      }
+    });
+  };
+
+  const builtInMessage = (field: FieldElement) => {
+    const flag = VALIDITY_FLAGS.find((flag) => field.validity[flag]);
+    return (
+      (flag && messages[flag]) ||
+      field.validationMessage ||
+      "Please enter a valid value."
+    );
+  };
+
+  const validateField = async (name: string) => {
+    const run = (validations.get(name) ?? 0) + 1;
+    validations.set(name, run);
+
+    const fields = fieldsOf(form, name).filter((field) => !field.disabled);
+    fields.forEach((field) => field.setCustomValidity(""));
+
+    let message = fields
+      .filter((field) => field.willValidate && !field.validity.valid)
+      .map(builtInMessage)[0];
+
+    if (!message) {
+      for (const rule of [rules[name] ?? []].flat()) {
+        let result: Awaited<ReturnType<FormRule<T>>>;
+        try {
+          result = await rule(fieldValue(name), values());
+        } catch (error) {
+          events.emit("error", { values: values(), error });
+          result = false;
+        }
+        if (validations.get(name) !== run) return !errors.has(name);
+        if (typeof result === "string" && result) message = result;
+        else if (result === false) {
+          message = messages.customError ?? "Please enter a valid value.";
+        }
+        if (message) break;
+      }
+    }
+
+    // Keep `:invalid` in sync for styling.
+    if (message) fields.forEach((field) => field.setCustomValidity(message!));
+    showError(name, message);
+    return !message;
+  };
+
+  const validate = async () => {
+    const names = new Set([
+      ...fieldsOf(form)
+        .filter((field) => field.willValidate)
+        .map((field) => field.name),
+      ...Object.keys(rules),
+    ]);
+    const results = await Promise.all([...names].map(validateField));
+    return results.every(Boolean);
+  };
+
+  const setErrors: FormController<T>["setErrors"] = (messages) => {
+    Object.entries(messages).forEach(([name, message]) =>
+      showError(name, [message ?? []].flat()[0])
+    );
+  };
+
+  const clearErrors = () => {
+    [...errors.keys()].forEach((name) => showError(name));
+    fieldsOf(form).forEach((field) => field.setCustomValidity(""));
+  };
+
+  // ========== Dirty state and drafts =======================
+
+  const saveDraft = () => {
+    if (!draft) return;
+    clearTimeout(draftTimeoutId);
+    draftTimeoutId = setTimeout(() => {
+      // Passwords are never written to storage.
+      const secret = new Set(
+        fieldsOf(form)
+          .filter((field) => field.type === "password")
+          .map((field) => field.name)
+      );
+      const entries = Array.from(new FormData(form)).filter(
+        (entry): entry is [string, string] =>
+          typeof entry[1] === "string" && !secret.has(entry[0])
+      );
+      (dirty
+        ? draftStore!.set(draft.key, entries)
+        : draftStore!.remove(draft.key)
+      ).catch((error) => console.error("Failed to save form draft", error));
+    }, draft.delay ?? 500);
+  };
+
+  const updateDirty = () => {
+    const now = snapshot() !== saved;
+    if (now !== dirty) {
+      dirty = now;
+      events.emit("dirty", { dirty });
+    }
+  };
+
+  const markClean = () => {
+    saved = snapshot();
+    updateDirty();
+  };
+
+  const clearDraft = async () => {
+    clearTimeout(draftTimeoutId);
+    if (draft) await draftStore!.remove(draft.key);
+  };
+
+  if (draft) {
+    draftStore!
+      .get(draft.key)
+      .then((entries) => {
+        if (!entries) return;
+        applyDraft(form, entries);
+        updateDirty();
+        events.emit("restore", { draft: entries });
+      })
+      .catch((error) => console.error("Failed to restore form draft", error));
+  }
+
+  // ========== Submit =======================
+
+  const defaultSubmit = async (
+    values: T,
+    { formData, signal, submitter }: FormSubmitContext
+  ) => {
+    const method = (
+      submitter?.getAttribute("formmethod") ||
+      form.getAttribute("method") ||
+      "GET"
+    ).toUpperCase();
+    const action = submitter?.getAttribute("formaction") || form.action;
+
+    const params = new URLSearchParams();
+    let hasFiles = false;
+    formData.forEach((value, name) => {
+      if (typeof value === "string") params.append(name, value);
+      else if (!isEmptyFile(value)) hasFiles = true;
+    });
+
+    const response =
+      method === "GET"
+        ? await client.request(`${action.split("?")[0]}?${params.toString()}`, {
+            signal,
+          })
+        : await client.request(action, {
+            method,
+            signal,
+            ...(json
+              ? { json: values }
+              : {
+                  body:
+                    hasFiles || form.enctype === "multipart/form-data"
+                      ? formData
+                      : params,
+                }),
+          });
+    return readResponseBody(response);
+  };
+
+  // Submit buttons disabled by the lock, to re-enable only those.
+  let lockedButtons: (HTMLButtonElement | HTMLInputElement)[] = [];
+
+  const lock = () => {
+    submitting = true;
+    form.setAttribute("aria-busy", "true");
+    form.classList.add("form-submitting");
+    form.inert = true;
+    lockedButtons = Array.from(
+      form.querySelectorAll<HTMLButtonElement | HTMLInputElement>(
+        'button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]'
+      )
+    ).filter((button) => !button.disabled);
+    lockedButtons.forEach((button) => (button.disabled = true));
+  };
+
+  const unlock = () => {
+    submitting = false;
+    form.removeAttribute("aria-busy");
+    form.classList.remove("form-submitting");
+    form.inert = false;
+    lockedButtons.forEach((button) => (button.disabled = false));
+    lockedButtons = [];
+  };
+
+  const submit = async (submitter?: HTMLElement | null) => {
+    if (submitting) return false;
+
+    if (!(await validate())) {
+      const firstInvalid = fieldsOf(form).find((field) =>
+        errors.has(field.name)
+      );
+      firstInvalid?.focus();
+      events.emit("invalid", { errors: Object.fromEntries(errors) });
+      return false;
+    }
+
+    const formData = new FormData(form, submitter);
+    const submitted = serializeForm<T>(form, submitter);
+    controller = new AbortController();
+    lock();
+    events.emit("submit", { values: submitted });
+
+    try {
+      const response = await (send ?? defaultSubmit)(submitted, {
+        formData,
+        signal: controller.signal,
+        submitter,
+      });
+      markClean();
+      // The server accepted the form; a failing store does not change that.
+      clearDraft().catch((error) =>
+        console.error("Failed to clear form draft", error)
+      );
+      events.emit("success", { values: submitted, response });
+      return true;
+    } catch (error) {
+      const body = isHttpError(error) ? error.body : undefined;
+      if (
+        isHttpError(error) &&
+        error.status === 422 &&
+        body &&
+        typeof body === "object" &&
+        "errors" in body
+      ) {
+        setErrors(
+          (body as { errors: Record<string, string | string[]> }).errors
+        );
+      }
+      events.emit("error", { values: submitted, error });
+      return false;
+    } finally {
+      controller = undefined;
+      unlock();
+    }
+  };
+
+  // ========== Listeners =======================
+
+  const fieldName = (target: EventTarget | null) =>
+    target instanceof Element && isField(target) ? target.name : "";
+
+  const onSubmit = (event: SubmitEvent) => {
+    event.preventDefault();
+    submit(event.submitter);
+  };
+
+  const onInput = (event: Event) => {
+    const name = fieldName(event.target);
+    if (name) touched.add(name);
+    if (name && (validateOn === "input" || errors.has(name))) {
+      validateField(name);
+    }
+    updateDirty();
+    saveDraft();
+  };
+
+  const onFocusOut = (event: FocusEvent) => {
+    const name = fieldName(event.target);
+    // Moving between the radios of a group is not leaving the field.
+    if (fieldName(event.relatedTarget) === name) return;
+    if (touched.has(name) && validateOn === "blur") validateField(name);
+  };
+
+  const onReset = () => {
+    clearErrors();
+    touched.clear();
+    // The reset event fires before the fields are reset.
+    setTimeout(() => {
+      updateDirty();
+      saveDraft();
+    });
+  };
+
+  const onBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (!dirty || submitting) return;
+    event.preventDefault();
+    event.returnValue = "";
+  };
+
+  form.addEventListener("submit", onSubmit);
+  form.addEventListener("input", onInput);
+  form.addEventListener("change", onInput);
+  form.addEventListener("focusout", onFocusOut);
+  form.addEventListener("reset", onReset);
+  if (warnOnUnsaved) window.addEventListener("beforeunload", onBeforeUnload);
+
+  return {
+    form,
+    on: events.on,
+    values,
+    validate,
+    validateField,
+    setErrors,
+    clearErrors,
+    errors: () => Object.fromEntries(errors),
+    submit,
+    isSubmitting: () => submitting,
+    isDirty: () => dirty,
+    markClean,
+    clearDraft,
+    destroy() {
+      controller?.abort();
+      clearTimeout(draftTimeoutId);
+      form.removeEventListener("submit", onSubmit);
+      form.removeEventListener("input", onInput);
+      form.removeEventListener("change", onInput);
+      form.removeEventListener("focusout", onFocusOut);
+      form.removeEventListener("reset", onReset);
+      window.removeEventListener("beforeunload", onBeforeUnload);
+      clearErrors();
+      errorElements.forEach((element) => {
+        if (!element.hasAttribute("data-error-for")) element.remove();
+      });
+      form.noValidate = noValidate;
+      ownDraftStore?.destroy();
+      events.clear();
+    },
+  };
+}
@@ -0,0 +1,674 @@
+/**
+ * HTTP client with interceptors, timeouts, retries and typed JSON.
+ * Path: src/http.ts
+ */
+
+import { getCookie } from "./cookies";
+import { sleep } from "./scheduling";
+
+export type HttpErrorCode =
+  | "http"
+  | "network"
+  | "timeout"
+  | "parse"
+  | "validation";
+
+/** A failed request. Created by `createHttpError`. */
+export interface HttpError extends Error {
+  /**
+   * - "http": the server answered with an error status.
+   * - "network": no response, e.g. offline or blocked by CORS.
+   * - "timeout": no response within the timeout.
+   * - "parse": the body is not valid JSON.
+   * - "validation": `guard` or `parse` rejected the body.
+   */
+  code: HttpErrorCode;
+  method: string;
+  url: string;
+  /** Response status, or undefined when no response arrived. */
+  status?: number;
+  statusText?: string;
+  /** Response body: parsed JSON when possible, else text. */
+  body?: unknown;
+  response?: Response;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+/** Query parameters. Null and undefined values are skipped. */
+export type Query = Record<string, QueryValue | QueryValue[]>;
+
+/** A request as seen by request interceptors, which may change it. */
+export interface HttpRequest
+  extends Omit<RequestInit, "method" | "headers" | "body" | "signal"> {
+  method: string;
+  url: string;
+  headers: Headers;
+  body?: BodyInit | null;
+}
+
+/** Changes a request before it is sent. Runs once, not on every retry. */
+export type RequestInterceptor = (
+  request: HttpRequest
+) => HttpRequest | void | Promise<HttpRequest | void>;
+
+/** Inspects or replaces a response. Runs on every attempt, before status checks. */
+export type ResponseInterceptor = (
+  response: Response,
+  request: HttpRequest
+) => Response | void | Promise<Response | void>;
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. Defaults to 2. */
+  retries?: number;
+  /** Delay in ms before the first retry. Doubles after every attempt. Defaults to 300. */
+  delay?: number;
+  /** Longest delay in ms, also for `Retry-After`. Defaults to 10000. */
+  maxDelay?: number;
+  /** Methods to retry. Defaults to the idempotent GET, HEAD, OPTIONS, PUT and DELETE. */
+  methods?: string[];
+  /** Statuses to retry. Defaults to 408, 429, 500, 502, 503 and 504. */
+  statuses?: number[];
+}
+
+export interface RequestOptions<T = unknown>
+  extends Omit<RequestInit, "method" | "headers" | "body"> {
+  /** Defaults to "GET". */
+  method?: string;
+  /** Merged over the default headers of the client. */
+  headers?: HeadersInit;
+  query?: Query;
+  /** Sent as a JSON body. */
+  json?: unknown;
+  body?: BodyInit | null;
+  /** Ms to wait for the response headers. 0 waits forever. */
+  timeout?: number;
+  /** Overrides the retry policy of the client, or turns retries off. */
+  retry?: RetryPolicy | false;
+  /** Reject error statuses with an HttpError. Defaults to true. */
+  throwHttpErrors?: boolean;
+  /** Checks the body of `json` requests. Failing rejects with a "validation" HttpError. */
+  guard?: (data: unknown) => data is T;
+  /** Converts the body of `json` requests, after `guard`. Throws if the body is invalid. */
+  parse?: (data: unknown) => T;
+  /** Called as body chunks arrive with the bytes read so far and the total size, when known. */
+  onDownloadProgress?: (loaded: number, total?: number) => void;
+  /** Called as the body is sent. Sends the request with XMLHttpRequest. */
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+export interface HttpClientOptions {
+  /** Prepended to relative paths. */
+  baseUrl?: string;
+  /** Sent with every request. */
+  headers?: HeadersInit;
+  /** Default timeout in ms. Defaults to 0 (none). */
+  timeout?: number;
+  /** Default retry policy, used for idempotent methods only. */
+  retry?: RetryPolicy | false;
+  credentials?: RequestCredentials;
+  /** Fetch implementation. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+export interface HttpClient {
+  /**
+   * Send a request.
+   * @returns The response. Its body has not been read.
+   */
+  request(path: string, options?: RequestOptions): Promise<Response>;
+  /**
+   * Send a request and parse the JSON response.
+   * @returns The body, or undefined for empty responses.
+   */
+  json<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  get<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  delete<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  post<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  put<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  patch<T = unknown>(path: string, options?: RequestOptions<T>): Promise<T>;
+  /**
+   * Add a request interceptor.
+   * @returns A function that removes it.
+   */
+  onRequest(interceptor: RequestInterceptor): () => void;
+  /**
+   * Add a response interceptor.
+   * @returns A function that removes it.
+   */
+  onResponse(interceptor: ResponseInterceptor): () => void;
+}
+
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+  retries: 2,
+  delay: 300,
+  maxDelay: 10000,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * @description Create a structured HTTP error.
+ * @param code
+ * @param message
+ * @param details Request, response and the underlying error, if any.
+ * @returns
+ */
+export function createHttpError(
+  code: HttpErrorCode,
+  message: string,
+  {
+    cause,
+    ...details
+  }: Pick<HttpError, "method" | "url"> &
+    Partial<Pick<HttpError, "status" | "statusText" | "body" | "response">> & {
+      cause?: unknown;
+    }
+): HttpError {
+  return Object.assign(new Error(message, { cause }), { code, ...details });
+}
+
+/**
+ * @description Check whether an error was created with `createHttpError`.
+ * @param error
+ * @returns
+ */
+export function isHttpError(error: unknown): error is HttpError {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    "method" in error &&
+    "url" in error
+  );
+}
+
+/**
+ * @description Get the size of a response body from its headers.
+ * Uses the total of a `Content-Range` for partial responses. Unknown when
+ * the body is compressed, because Content-Length then counts encoded bytes.
+ * @param response
+ * @returns The size in bytes, or undefined if unknown.
+ */
+export function getContentLength(response: Response) {
+  const encoding = response.headers.get("Content-Encoding");
+  if (encoding && encoding !== "identity") return undefined;
+
+  const range = response.headers.get("Content-Range")?.match(/\/(\d+)$/);
+  if (response.status === 206 && range) return Number(range[1]);
+
+  const length = response.headers.get("Content-Length");
+  return length === null || isNaN(Number(length)) ? undefined : Number(length);
+}
+
+/**
+ * @description Read a response body: parsed JSON if the response says it is
+ * JSON, else text.
+ * @param response
+ * @returns
+ */
+export async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  const type = response.headers.get("Content-Type") ?? "";
+  return text && /[/+]json\b/.test(type) ? JSON.parse(text) : text;
+}
+
+/**
+ * @description Request interceptor that copies a CSRF token from a cookie
+ * into a header. Only unsafe methods to the same origin get the header, so
+ * the token never leaks to other sites.
+ * @example
+ * http.onRequest(csrfInterceptor({ cookie: "XSRF-TOKEN", header: "X-XSRF-TOKEN" }));
+ * @param options Cookie and header names. Default to Django's "csrftoken" and "X-CSRFToken".
+ * @returns
+ */
+export function csrfInterceptor({
+  cookie = "csrftoken",
+  header = "X-CSRFToken",
+}: { cookie?: string; header?: string } = {}): RequestInterceptor {
+  return (request) => {
+    if (["GET", "HEAD", "OPTIONS", "TRACE"].includes(request.method)) return;
+    if (new URL(request.url, location.href).origin !== location.origin) return;
+
+    const token = getCookie(cookie);
+    if (token && !request.headers.has(header)) {
+      request.headers.set(header, token);
+    }
+  };
+}
+
+function buildUrl(baseUrl: string | undefined, path: string, query?: Query) {
+  let url = path;
+  // Absolute URLs and protocol-relative URLs ignore the base URL.
+  if (baseUrl && !/^([a-z][a-z\d+.-]*:|\/\/)/i.test(path)) {
+    url = `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+  }
+
+  if (query) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([name, value]) => {
+      [value].flat().forEach((item) => {
+        if (item !== null && item !== undefined) {
+          params.append(name, String(item));
+        }
+      });
+    });
+    const search = params.toString();
+    if (search) url += `${url.includes("?") ? "&" : "?"}${search}`;
+  }
+  return url;
+}
+
+// Seconds or an HTTP date.
+function retryAfter(response: Response) {
+  const header = response.headers.get("Retry-After");
+  if (!header) return undefined;
+  const ms = /^\d+$/.test(header)
+    ? Number(header) * 1000
+    : Date.parse(header) - Date.now();
+  return isNaN(ms) ? undefined : Math.max(0, ms);
+}
+
+async function readErrorBody(response: Response) {
+  try {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text || undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+function trackDownloadProgress(
+  response: Response,
+  onProgress: (loaded: number, total?: number) => void
+) {
+  const reader = response.body?.getReader();
+  // Responses such as 204 and 304 cannot be constructed with a body.
+  if (!reader) return response;
+
+  const total = getContentLength(response);
+  let loaded = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          reader.releaseLock();
+          return;
+        }
+        loaded += value.byteLength;
+        onProgress(loaded, total);
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// Call `release` once the body has been read, has failed or was cancelled.
+function releaseOnBodyEnd(response: Response, release: () => void) {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    release();
+    return response;
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          reader.releaseLock();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  const wrapped = new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // Keep the final URL, which callers use to name downloads.
+  Object.defineProperty(wrapped, "url", { value: response.url });
+  return wrapped;
+}
+
+// fetch cannot report upload progress, so such requests go through XHR.
+function sendWithXhr(
+  request: HttpRequest,
+  signal: AbortSignal,
+  onUploadProgress: (loaded: number, total: number) => void
+) {
+  return new Promise<Response>((resolve, reject) => {
+    if (request.body instanceof ReadableStream) {
+      throw new Error("Upload progress is not supported for stream bodies");
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url, true);
+    xhr.responseType = "blob";
+    xhr.withCredentials = request.credentials === "include";
+    request.headers.forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.addEventListener("progress", (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+    });
+
+    const onAbort = () => xhr.abort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => signal.removeEventListener("abort", onAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      const headers = new Headers();
+      xhr
+        .getAllResponseHeaders()
+        .trim()
+        .split(/[\r\n]+/)
+        .forEach((line) => {
+          const colon = line.indexOf(":");
+          if (colon > 0) {
+            headers.append(line.slice(0, colon), line.slice(colon + 1).trim());
+          }
+        });
+      const nullBody = [101, 204, 205, 304].includes(xhr.status);
+      resolve(
+        new Response(nullBody ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError("Network error"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal.reason);
+    };
+
+    xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
+/**
+ * @description Create an HTTP client.
+ * Requests share a base URL, default headers and interceptors. Idempotent
+ * requests are retried after network errors, timeouts and the statuses of
+ * the retry policy, honouring `Retry-After`. Failures reject with an
+ * `HttpError` holding the status and body; aborting rejects with the
+ * signal's reason.
+ * @example
+ * const api = createHttpClient({ baseUrl: "/api", timeout: 10000 });
+ * api.onRequest(csrfInterceptor());
+ * const user = await api.get<User>(`/users/${id}`, { guard: isUser });
+ * await api.post("/users", { json: { name: "Ada" } });
+ * @param options
+ * @returns
+ */
+export function createHttpClient({
+  baseUrl,
+  headers: defaultHeaders,
+  timeout: defaultTimeout = 0,
+  retry: defaultRetry,
+  credentials,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+}: HttpClientOptions = {}): HttpClient {
+  const requestInterceptors: RequestInterceptor[] = [];
+  const responseInterceptors: ResponseInterceptor[] = [];
+
+  const send = async (
+    path: string,
+    {
+      method = "GET",
+      headers,
+      query,
+      json,
+      body,
+      timeout = defaultTimeout,
+      retry = defaultRetry,
+      throwHttpErrors = true,
+      guard: _guard,
+      parse: _parse,
+      onDownloadProgress,
+      onUploadProgress,
+      signal,
+      ...init
+    }: RequestOptions<unknown>
+  ) => {
+    signal?.throwIfAborted();
+
+    let request: HttpRequest = {
+      credentials,
+      ...init,
+      method: method.toUpperCase(),
+      url: buildUrl(baseUrl, path, query),
+      headers: new Headers(defaultHeaders),
+      body,
+    };
+    new Headers(headers).forEach((value, name) =>
+      request.headers.set(name, value)
+    );
+    if (json !== undefined) {
+      request.body = JSON.stringify(json);
+      if (!request.headers.has("Content-Type")) {
+        request.headers.set("Content-Type", "application/json");
+      }
+    }
+
+    for (const interceptor of requestInterceptors) {
+      request = (await interceptor(request)) ?? request;
+    }
+
+    const policy = retry === false ? undefined : { ...DEFAULT_RETRY, ...retry };
+    // A stream body can only be sent once.
+    const retries =
+      policy &&
+      policy.methods.includes(request.method) &&
+      !(request.body instanceof ReadableStream)
+        ? policy.retries
+        : 0;
+    const backoff = (attempt: number) =>
+      Math.min(policy!.maxDelay, policy!.delay * 2 ** attempt);
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const onAbort = () => controller.abort(signal!.reason);
+      const release = () => signal?.removeEventListener("abort", onAbort);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      let timedOut = false;
+      const timeoutId =
+        timeout > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              controller.abort(
+                new DOMException("The request timed out", "TimeoutError")
+              );
+            }, timeout)
+          : undefined;
+
+      let response: Response;
+      try {
+        const { url, ...requestInit } = request;
+        response = onUploadProgress
+          ? await sendWithXhr(request, controller.signal, onUploadProgress)
+          : await fetchImpl(url, {
+              ...requestInit,
+              signal: controller.signal,
+            });
+      } catch (cause) {
+        release();
+        if (signal?.aborted) throw signal.reason;
+        const error = timedOut
+          ? createHttpError(
+              "timeout",
+              `${request.method} ${request.url} timed out after ${timeout} ms`,
+              { method: request.method, url: request.url, cause }
+            )
+          : createHttpError(
+              "network",
+              `${request.method} ${request.url} failed: network error`,
+              { method: request.method, url: request.url, cause }
+            );
+        if (attempt >= retries) throw error;
+        await sleep(backoff(attempt), signal);
+        continue;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      let retryDelay: number | undefined;
+      try {
+        for (const interceptor of responseInterceptors) {
+          response = (await interceptor(response, request)) ?? response;
+        }
+
+        if (
+          !response.ok &&
+          attempt < retries &&
+          policy!.statuses.includes(response.status)
+        ) {
+          retryDelay = Math.min(
+            policy!.maxDelay,
+            retryAfter(response) ?? backoff(attempt)
+          );
+          await response.body?.cancel();
+        } else if (!response.ok && throwHttpErrors) {
+          throw createHttpError(
+            "http",
+            `${request.method} ${request.url} failed. Status: ${response.status}`,
+            {
+              method: request.method,
+              url: request.url,
+              status: response.status,
+              statusText: response.statusText,
+              body: await readErrorBody(response),
+              response,
+            }
+          );
+        }
+      } catch (error) {
+        release();
+        throw error;
+      }
+
+      if (retryDelay !== undefined) {
+        release();
+        await sleep(retryDelay, signal);
+        continue;
+      }
+
+      // Aborting still cancels the body; stop listening once it is read.
+      if (signal) response = releaseOnBodyEnd(response, release);
+
+      if (onDownloadProgress) {
+        response = trackDownloadProgress(response, onDownloadProgress);
+      }
+      return { request, response };
+    }
+  };
+
+  const json = async <T>(path: string, options: RequestOptions<T> = {}) => {
+    const headers = new Headers(options.headers);
+    if (!headers.has("Accept")) headers.set("Accept", "application/json");
+
+    const { request, response } = await send(path, { ...options, headers });
+    const details = {
+      method: request.method,
+      url: request.url,
+      status: response.status,
+      statusText: response.statusText,
+      response,
+    };
+
+    const text = request.method === "HEAD" ? "" : await response.text();
+    if (!text) return undefined as T;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (cause) {
+      throw createHttpError(
+        "parse",
+        `${request.method} ${request.url} returned invalid JSON`,
+        { ...details, body: text, cause }
+      );
+    }
+
+    const invalid = (cause?: unknown) =>
+      createHttpError(
+        "validation",
+        `${request.method} ${request.url} returned an unexpected body`,
+        { ...details, body: data, cause }
+      );
+
+    if (options.guard && !options.guard(data)) throw invalid();
+    if (!options.parse) return data as T;
+    try {
+      return options.parse(data);
+    } catch (cause) {
+      throw invalid(cause);
+    }
+  };
+
+  const remove =
+    <T>(list: T[], item: T) =>
+    () => {
+      const index = list.indexOf(item);
+      if (index >= 0) list.splice(index, 1);
+    };
+
+  return {
+    request: async (path, options = {}) => (await send(path, options)).response,
+    json,
+    get: (path, options) => json(path, { ...options, method: "GET" }),
+    delete: (path, options) => json(path, { ...options, method: "DELETE" }),
+    post: (path, options) => json(path, { ...options, method: "POST" }),
+    put: (path, options) => json(path, { ...options, method: "PUT" }),
+    patch: (path, options) => json(path, { ...options, method: "PATCH" }),
+    onRequest(interceptor) {
+      requestInterceptors.push(interceptor);
+      return remove(requestInterceptors, interceptor);
+    },
+    onResponse(interceptor) {
+      responseInterceptors.push(interceptor);
+      return remove(responseInterceptors, interceptor);
+    },
+  };
+}
+
+/**
+ * The default client, used by `streamingFetch`, `downloadFile` and
+ * `uploadFiles` unless they are given another one. Add interceptors to it
+ * to apply them everywhere.
+ */
+export const http = createHttpClient();
@@ -3,203 +3,39 @@
  * Path: src/index.ts
  */
 
-/**
- * @description Call a function only once in a given time frame.
- * @param fn  Function to be called.
- * @param wait  Time in milliseconds.
- * @returns
- */
-export function throttle(func: Function, delay: number) {
-  let wait = false;
-  let storedArgs: any = null;
-
-  function checkStoredArgs() {
-    if (storedArgs == null) {
-      wait = false;
-    } else {
-      func(...storedArgs);
-      storedArgs = null;
-      setTimeout(checkStoredArgs, delay);
-    }
-  }
-
-  return (...args: any) => {
-    if (wait) {
-      storedArgs = args;
-      return;
-    }
-
-    func(...args);
-    wait = true;
-    setTimeout(checkStoredArgs, delay);
-  };
-}
-
-/**
- * @description Debounce a function call.
- * @param fn  Function to be called.
- * @param wait  Time in milliseconds.
- * @returns
- */
-export function debounce(func: Function, delay: number) {
-  let timeoutId: number;
-
-  return (...args: any) => {
-    if (timeoutId) {
-      window.clearTimeout(timeoutId);
-    }
-
-    timeoutId = window.setTimeout(() => {
-      func(...args);
-    }, delay);
-  };
-}
-/**
- * @description Get the current window width.
- * @returns
- */
-export const getWindowWidth = () => {
-  return (
-    window.innerWidth ||
-    document.documentElement.clientWidth ||
-    document.body.clientWidth
-  );
-};
-
-/**
- * @description Get the current window height.
- * @returns
- */
-export const getWindowHeight = () => {
-  return (
-    window.innerHeight ||
-    document.documentElement.clientHeight ||
-    document.body.clientHeight
-  );
-};
-
-/**
- * @description Get the current window scroll position.
- * @returns
- */
-export const getWindowScroll = () => {
-  return (
-    window.scrollY ||
-    document.body.scrollTop ||
-    document.documentElement.scrollTop
-  );
-};
-
-/**
- * @description Get the current window scroll position.
- * @returns
- */
-export const getDocumentHeight = () => {
-  return document.body.scrollHeight || document.documentElement.scrollHeight;
-};
-
-/**
- * @description Check if an element is in the viewport.
- * @param el  Element to check.
- * @returns
- */
-export const isInViewport = (el: HTMLElement) => {
-  const rect = el.getBoundingClientRect();
-
-  return (
-    rect.top >= 0 &&
-    rect.left >= 0 &&
-    rect.bottom <= getWindowHeight() &&
-    rect.right <= getWindowWidth()
-  );
-};
-
-/**
- * @description Check if an element is intersecting the viewport.
- * @param el  Element to check.
- * @returns A function to disconnect the observer.
- */
-export const isIntersecting = (
-  el: HTMLElement,
-  options?: IntersectionObserverInit
-) => {
-  const observer = new IntersectionObserver((entries) => {
-    entries.forEach((entry) => {
-      return entry.isIntersecting;
-    }, options);
-  });
-  observer.observe(el);
-  return () => observer.disconnect();
-};
-
-/**
- *  Render an image to a canvas element that is appended to the given element.
- * @param el Element to append the canvas to.
- * @param src Image source. Can be a string or a File object.
- * @param dimens Dimensions of the canvas.
- * @param options ImageBitmapOptions.
- */
-export const renderImage = (
-  el: HTMLElement,
-  src: string | File,
-  dimens?: { width: number; height: number },
-  options?: ImageBitmapOptions
-) => {
-  // create a new image element
-  const img = document.createElement("img");
-  img.src = typeof src === "string" ? src : URL.createObjectURL(src);
-
-  img.onload = () => {
-    createImageBitmap(img, options).then((bitmap) => {
-      // we now have a bitmap of the image
-      const canvas = document.createElement("canvas");
-      canvas.width = dimens?.width || bitmap.width;
-      canvas.height = dimens?.height || bitmap.height;
-      const ctx = canvas.getContext("2d");
-      ctx?.drawImage(bitmap, 0, 0);
-      el.appendChild(canvas);
-    });
-  };
-};
-
-enum ReadOptions {
-  ArrayBuffer,
-  BinaryString,
-  DataURL,
-  Text,
-}
-
-/**
- * Read File object.
- */
-export async function readFile<T extends ArrayBuffer | string>(
-  file: File,
-  option?: ReadOptions
-): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as T);
-    reader.onerror = (error) => reject(error);
-
-    switch (option) {
-      case ReadOptions.ArrayBuffer:
-        reader.readAsArrayBuffer(file);
-        break;
-      case ReadOptions.BinaryString:
-        reader.readAsBinaryString(file);
-        break;
-      case ReadOptions.DataURL:
-        reader.readAsDataURL(file);
-        break;
-      case ReadOptions.Text:
-        reader.readAsText(file);
-        break;
-      default:
-        reader.readAsArrayBuffer(file);
-        break;
-    }
-  });
-}
+import { pipeline, type ConvolveOptions } from "./filters";
+import { createDataTable } from "./table";
+import { processFiles, type FileProcessor } from "./file-processing";
+import { http, readResponseBody, type HttpClient } from "./http";
+
+export * from "./filters";
+export * from "./filter-workers";
+export * from "./wasm";
+export * from "./wasm-math";
+export * from "./emscripten";
+export * from "./events";
+export * from "./table";
+export * from "./scheduling";
+export * from "./download";
+export * from "./table-export";
+export * from "./modal";
+export * from "./dom";
+export * from "./menu-button";
+export * from "./upload";
+export * from "./files";
+export * from "./canvas";
+export * from "./file-processing";
+export * from "./dropzone";
+export * from "./streaming";
+export * from "./cookies";
+export * from "./http";
+export * from "./storage";
+export * from "./forms";
+export * from "./select";
+export * from "./visibility";
+export * from "./viewport";
+export * from "./media-recorder";
+export * from "./media-devices";
 
 export interface UploadFilesOptions<T> {
   url: string;
@@ -207,6 +43,12 @@ export interface UploadFilesOptions<T> {
   formName?: string;
   onProgress?: (progress: number) => void;
   headers?: Record<string, string>;
+  /** Validate and transform the files before uploading. */
+  processors?: FileProcessor[];
+  /** Maximum number of files. */
+  maxFiles?: number;
+  /** Client to send the request with. Defaults to `http`. */
+  client?: HttpClient;
 }
 
 /**
@@ -217,7 +59,12 @@ export interface UploadFilesOptions<T> {
  * - formName:  Name of the form field. Defaults to "files[]".
  * - onProgress:  Callback for progress.
  * - headers:  Custom headers. Defaults to {}.
- * @returns
+ * - processors:  File processors, e.g. acceptTypes() or processImage().
+ * - maxFiles:  Maximum number of files.
+ * - client:  HTTP client. Defaults to `http`.
+ * @returns The response, parsed if it is JSON. Rejects with an HttpError
+ * if the upload fails, and with an AggregateError of FileValidationErrors if a
+ * processor rejects any file; nothing is uploaded in that case.
  */
 export async function uploadFiles<T>({
   url,
@@ -225,284 +72,86 @@ export async function uploadFiles<T>({
   formName = "files[]",
   onProgress,
   headers = {},
+  processors,
+  maxFiles,
+  client = http,
 }: UploadFilesOptions<T>): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const formData = new FormData();
-    files.forEach((file) => formData.append(formName, file));
-
-    const xhr = new XMLHttpRequest();
-    xhr.open("POST", url, true);
-
-    // Set custom headers
-    Object.keys(headers).forEach((header) => {
-      xhr.setRequestHeader(header, headers[header]);
-    });
-
-    // Listen to the upload progress.
-    xhr.upload.addEventListener("progress", (event) => {
-      if (event.lengthComputable && onProgress) {
-        const progress = event.loaded / event.total;
-        onProgress(progress);
-      }
-    });
-
-    // Handle completion and errors.
-    xhr.onload = () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        // If successful, resolve the promise by passing back the request response.
-        resolve(xhr.response as T);
-      } else {
-        const errorMessage = `Failed to upload files. Status: ${xhr.status}`;
-        console.error(errorMessage);
-        reject(new Error(errorMessage));
-      }
-    };
-
-    xhr.onerror = () => {
-      const errorMessage = "Network error during upload";
-      console.error(errorMessage);
-      reject(new Error(errorMessage));
-    };
-
-    // Send the FormData with the files.
-    xhr.send(formData);
-  });
-}
-
-/**
- * @description Download a file from a URL.
- */
+  if (processors || maxFiles !== undefined) {
+    const result = await processFiles(files, { processors, maxFiles });
+    if (result.errors.length > 0) {
+      throw new AggregateError(
+        result.errors,
+        `${result.errors.length} file(s) were rejected`
+      );
+    }
+    files = result.files;
+  }
 
-export interface DownloadFileOptions {
-  url: string;
-  filename?: string;
-  headers?: Record<string, string>;
-}
+  const formData = new FormData();
+  files.forEach((file) => formData.append(formName, file));
 
-/**
- * @description Download a file from a URL.
- * @param options
- */
-export async function downloadFile({
-  url,
-  filename,
-  headers = {},
-}: DownloadFileOptions) {
-  const response = await fetch(url, {
+  const response = await client.request(url, {
+    method: "POST",
     headers,
+    body: formData,
+    onUploadProgress:
+      onProgress && ((loaded, total) => onProgress(loaded / total)),
   });
 
-  const blob = await response.blob();
-  const blobUrl = URL.createObjectURL(blob);
-
-  const a = document.createElement("a");
-  a.href = blobUrl;
-  a.download = filename || "";
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(blobUrl);
+  return (await readResponseBody(response)) as T;
 }
 
 /** Image functions and filters */
 
-/**
- * @description Convert a canvas to an image.
- * @param canvas
- * @returns
- */
-export function canvasToImage(canvas: HTMLCanvasElement) {
-  const image = new Image();
-  image.src = canvas.toDataURL("image/png");
-  return image;
-}
-
 // Sepia filter
 export function sepiaFilter(imageData: ImageData) {
-  const { data } = imageData;
-  const length = data.length;
-
-  for (let i = 0; i < length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-
-    data[i] = Math.min(255, r * 0.393 + g * 0.769 + b * 0.189);
-    data[i + 1] = Math.min(255, r * 0.349 + g * 0.686 + b * 0.168);
-    data[i + 2] = Math.min(255, r * 0.272 + g * 0.534 + b * 0.131);
-  }
-
-  return imageData;
+  return pipeline(imageData).sepia().run(imageData);
 }
 
 // Brightness filter
 export function brightnessFilter(imageData: ImageData, brightness: number) {
-  const { data } = imageData;
-  const length = data.length;
-
-  for (let i = 0; i < length; i += 4) {
-    data[i] += brightness;
-    data[i + 1] += brightness;
-    data[i + 2] += brightness;
-  }
-
-  return imageData;
+  return pipeline(imageData).brightness(brightness).run(imageData);
 }
 
 // Contrast filter
 export function contrastFilter(imageData: ImageData, contrast: number) {
-  const { data } = imageData;
-  const length = data.length;
-  const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-
-  for (let i = 0; i < length; i += 4) {
-    data[i] = factor * (data[i] - 128) + 128;
-    data[i + 1] = factor * (data[i + 1] - 128) + 128;
-    data[i + 2] = factor * (data[i + 2] - 128) + 128;
-  }
-
-  return imageData;
+  return pipeline(imageData).contrast(contrast).run(imageData);
 }
 
 // Grayscale filter
 export function grayscaleFilter(imageData: ImageData) {
-  const { data } = imageData;
-  const length = data.length;
-
-  for (let i = 0; i < length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-
-    data[i] = data[i + 1] = data[i + 2] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-  }
-
-  return imageData;
+  return pipeline(imageData).grayscale().run(imageData);
 }
 
 // Invert filter
 export function invertFilter(imageData: ImageData) {
-  const { data } = imageData;
-  const length = data.length;
-
-  for (let i = 0; i < length; i += 4) {
-    data[i] = 255 - data[i];
-    data[i + 1] = 255 - data[i + 1];
-    data[i + 2] = 255 - data[i + 2];
-  }
-
-  return imageData;
+  return pipeline(imageData).invert().run(imageData);
 }
 
 // Blur filter
-export function blurFilter(imageData: ImageData, blur: number) {
-  const { data, width } = imageData;
-  const length = data.length;
-  const matrixSize = blur * 2 + 1;
-  const radius = blur + 1;
-  const matrix = new Array(matrixSize * matrixSize).fill(
-    1 / (matrixSize * matrixSize)
-  );
-
-  for (let i = 0; i < length; i += 4) {
-    const r = [];
-    const g = [];
-    const b = [];
-
-    for (let j = 0; j < matrixSize; j++) {
-      const x = i + j * 4 - radius * 4;
-      const y = i + j * 4 * width - radius * 4 * width;
-
-      for (let k = 0; k < matrixSize; k++) {
-        const m = matrix[j * matrixSize + k];
-        const z = x + k * 4;
-
-        r.push(data[z] * m);
-        g.push(data[z + 1] * m);
-        b.push(data[z + 2] * m);
-      }
-    }
-
-    data[i] = r.reduce((a, b) => a + b);
-    data[i + 1] = g.reduce((a, b) => a + b);
-    data[i + 2] = b.reduce((a, b) => a + b);
-  }
-
-  return imageData;
+export function blurFilter(
+  imageData: ImageData,
+  blur: number,
+  options?: ConvolveOptions
+) {
+  return pipeline(imageData).blur(blur, options).run(imageData);
 }
 
 // Sharpen filter
-export function sharpenFilter(imageData: ImageData, sharpen: number) {
-  const { data, width } = imageData;
-  const length = data.length;
-  const matrixSize = sharpen * 2 + 1;
-  const radius = sharpen + 1;
-
-  const matrix = new Array(matrixSize * matrixSize).fill(
-    -1 / (matrixSize * matrixSize)
-  );
-  matrix[radius * matrixSize + radius] = 1;
-
-  for (let i = 0; i < length; i += 4) {
-    const r = [];
-    const g = [];
-    const b = [];
-
-    for (let j = 0; j < matrixSize; j++) {
-      const x = i + j * 4 - radius * 4;
-      const y = i + j * 4 * width - radius * 4 * width;
-
-      for (let k = 0; k < matrixSize; k++) {
-        const m = matrix[j * matrixSize + k];
-        const z = x + k * 4;
-
-        r.push(data[z] * m);
-        g.push(data[z + 1] * m);
-        b.push(data[z + 2] * m);
-      }
-    }
-
-    data[i] = r.reduce((a, b) => a + b);
-    data[i + 1] = g.reduce((a, b) => a + b);
-    data[i + 2] = b.reduce((a, b) => a + b);
-  }
-
-  return imageData;
+export function sharpenFilter(
+  imageData: ImageData,
+  sharpen: number,
+  options?: ConvolveOptions
+) {
+  return pipeline(imageData).sharpen(sharpen, options).run(imageData);
 }
 
 // Edge detection filter
-export function edgeDetectionFilter(imageData: ImageData) {
-  const { data, width } = imageData;
-  const length = data.length;
-  const matrixSize = 3;
-  const radius = 1;
-
-  const matrix = [-1, -1, -1, -1, 8, -1, -1, -1, -1];
-
-  for (let i = 0; i < length; i += 4) {
-    const r = [];
-    const g = [];
-    const b = [];
-
-    for (let j = 0; j < matrixSize; j++) {
-      const x = i + j * 4 - radius * 4;
-      const y = i + j * 4 * width - radius * 4 * width;
-
-      for (let k = 0; k < matrixSize; k++) {
-        const m = matrix[j * matrixSize + k];
-        const z = x + k * 4;
-
-        r.push(data[z] * m);
-        g.push(data[z + 1] * m);
-        b.push(data[z + 2] * m);
-      }
-    }
-
-    data[i] = r.reduce((a, b) => a + b);
-    data[i + 1] = g.reduce((a, b) => a + b);
-    data[i + 2] = b.reduce((a, b) => a + b);
-  }
-
-  return imageData;
+export function edgeDetectionFilter(
+  imageData: ImageData,
+  options?: ConvolveOptions
+) {
+  return pipeline(imageData).edgeDetect(options).run(imageData);
 }
 
 /**
@@ -568,52 +217,7 @@ export function flipImage(
   return newImageData;
 }
 
-// ========== Wasm =======================
-
-/**
- * Import wasm module with instantiateStreaming
- * @param url
- * @returns
- */
-export async function importWasmModule(
-  url: string,
-  importObject?: WebAssembly.Imports
-) {
-  const response = await fetch(url);
-  const wasm = await WebAssembly.instantiateStreaming(response, importObject);
-  return { exports: wasm.instance.exports, module: wasm.module };
-}
-
 // =========== WebRTC ====================
-/**
- * @description Get a media stream from the webcam in a cross-browser way.
- * @returns
- */
-
-/**
- * @description Get a media stream from the webcam in a cross-browser way.
- * @returns
- */
-export async function getMediaStream(constraints?: MediaStreamConstraints) {
-  const options: MediaStreamConstraints = {
-    video: {
-      facingMode: "user",
-      width: 640,
-      height: 480,
-    },
-    audio: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
-    },
-  };
-
-  if (constraints) {
-    Object.assign(options, constraints);
-  }
-  return navigator.mediaDevices.getUserMedia(options);
-}
-
 // Video manipulation
 // mute video
 export function muteVideo(video: HTMLVideoElement) {
@@ -734,164 +338,6 @@ export function autoResizeTextarea(textarea: HTMLTextAreaElement) {
   resizeTextArea(textarea);
 }
 
-/** Set default options for each select element on the page.
- * This is useful for setting default values for select elements that are populated
- * from server-side templates in vanilla JavaScript. (Unlike in many frameworks)
- */
-export function setDefaultSelectOptions() {
-  const selects = document.querySelectorAll("select");
-  selects.forEach((select) => {
-    const options = select.querySelectorAll("option");
-
-    options.forEach((option) => {
-      if (select.getAttribute("value") == option.getAttribute("value")) {
-        option.selected = true;
-      } else {
-        option.selected = false;
-      }
-    });
-  });
-}
-
-/** onClickOutside
- * @description Call a function when a user clicks outside an element.
- * @param el Element to check.
- * @param fn Function to call.
- */
-export function onClickOutside(el: HTMLElement, fn: (e: MouseEvent) => void) {
-  const handler = (event: MouseEvent) => {
-    if (!el.contains(event.target as Node) && event.target !== el) {
-      fn(event);
-    }
-  };
-
-  document.addEventListener("pointerdown", handler);
-  return () => document.removeEventListener("pointerdown", handler);
-}
-
-export function getCookie(name: string) {
-  const cookies = document.cookie.split("; ");
-  const cookie = cookies.find((cookie) => cookie.startsWith(name));
-  return cookie?.split("=")[1];
-}
-
-export function setCookie(
-  name: string,
-  value: string,
-  options?: {
-    expires?: number | Date;
-    path?: string;
-    domain?: string;
-    secure?: boolean;
-    sameSite?: "strict" | "lax" | "none";
-  }
-) {
-  let cookie = `${name}=${value}`;
-
-  if (options) {
-    if (options.expires) {
-      if (typeof options.expires === "number") {
-        const date = new Date();
-        date.setTime(date.getTime() + options.expires * 24 * 60 * 60 * 1000);
-        cookie += `; expires=${date.toUTCString()}`;
-      } else {
-        cookie += `; expires=${options.expires.toUTCString()}`;
-      }
-    }
-
-    if (options.path) {
-      cookie += `; path=${options.path}`;
-    }
-
-    if (options.domain) {
-      cookie += `; domain=${options.domain}`;
-    }
-
-    if (options.secure) {
-      cookie += `; secure`;
-    }
-
-    if (options.sameSite) {
-      cookie += `; samesite=${options.sameSite}`;
-    }
-  }
-  document.cookie = cookie;
-}
-
-/**
- *  Streaming fetch: https://stackoverflow.com/questions/53005361/how-to-stream-fetch-response-body
- * This is useful for streaming large files. The response body is a ReadableStream.
- * The server must support streaming e.g Node.js with res.write() or res.pipe() or golang with http.ResponseWriter.
- * @param url URL to fetch.
- * @param options Fetch options.
- * @returns
- */
-export async function streamingFetch(url: string, options?: RequestInit) {
-  const response = await fetch(url, options);
-  const reader = response.body?.getReader();
-  const stream = new ReadableStream({
-    async start(controller) {
-      if (!reader) return;
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        controller.enqueue(value);
-      }
-      controller.close();
-      reader.releaseLock();
-    },
-  });
-
-  return new Response(stream, {
-    headers: response.headers,
-  });
-}
-
-// Creating a modal in vanilla JavaScript
-export function createModal(options: {
-  title: string;
-  content: Node;
-  buttons?: { text: string; onClick: () => void }[];
-}) {
-  const modal = document.createElement("div");
-  modal.classList.add("modal");
-
-  const modalInner = document.createElement("div");
-  modalInner.classList.add("modal-inner");
-
-  const modalTitle = document.createElement("h2");
-  modalTitle.classList.add("modal-title");
-
-  modalTitle.innerText = options.title;
-  modalInner.appendChild(modalTitle);
-  modalInner.appendChild(options.content);
-
-  if (options.buttons) {
-    const modalButtons = document.createElement("div");
-    modalButtons.classList.add("modal-buttons");
-
-    options.buttons.forEach((button) => {
-      const buttonEl = document.createElement("button");
-      buttonEl.innerText = button.text;
-      buttonEl.addEventListener("click", button.onClick);
-      modalButtons.appendChild(buttonEl);
-    });
-
-    modalInner.appendChild(modalButtons);
-  }
-
-  modal.appendChild(modalInner);
-  document.body.appendChild(modal);
-  document.documentElement.classList.add("modal-open");
-  return modal;
-}
-
-export function closeModal(modal: HTMLElement) {
-  if (!modal) return;
-  modal.remove();
-  document.documentElement.classList.remove("modal-open");
-}
-
 /**
  *  Prevent double form submissions in vanilla JavaScript.
  * @param forms A list of forms to prevent double submissions. Defaults to all forms on the page.
@@ -903,7 +349,9 @@ export function safeFormSubmit(forms?: NodeListOf<HTMLFormElement>) {
 
   forms.forEach((form) => {
     // Avoid double form submissions in a space of 1s
-    const formButtons = form.querySelectorAll("button");
+    const formButtons = form.querySelectorAll<
+      HTMLButtonElement | HTMLInputElement
+    >('button, input[type="submit"], input[type="image"]');
 
     form.addEventListener("submit", () => {
       form.style.opacity = "0.5";
@@ -929,7 +377,11 @@ export function safeFormSubmit(forms?: NodeListOf<HTMLFormElement>) {
   });
 }
 
-// Client-side generic table pagination
+/**
+ * Client-side generic table pagination.
+ * Built on createDataTable with sorting and filtering turned off.
+ * @returns A handle with goTo, refresh and destroy.
+ */
 export function paginateTable(
   table: HTMLTableElement,
   options?: {
@@ -938,87 +390,12 @@ export function paginateTable(
     buttonClassName?: string;
   }
 ) {
-  const tableBody = table.querySelector("tbody");
-  const tableRows = tableBody?.querySelectorAll("tr");
-  const tableRowsArray = Array.from(tableRows || []);
-
-  const prevButton = document.createElement("button");
-  prevButton.innerText = "Prev";
-  prevButton.className = options?.buttonClassName || "btn btn-primary btn-sm";
-  prevButton.disabled = true;
-
-  const nextButton = document.createElement("button");
-  nextButton.innerText = "Next";
-  nextButton.className = options?.buttonClassName || "btn btn-primary btn-sm";
-
-  const current = document.createElement("span");
-  current.innerText = "1";
-  current.className = "current-page";
-
-  const pagination = document.createElement("div");
-  pagination.classList.add("pagination");
-  pagination.style.display = "flex";
-  pagination.style.alignItems = "center";
-  pagination.style.gap = "1rem";
-
-  pagination.appendChild(prevButton);
-  pagination.appendChild(current);
-  pagination.appendChild(nextButton);
-
-  table.insertAdjacentElement("afterend", pagination);
-
-  let currentPage = options?.currentPage || 1;
-  const rowsPerPage = options?.rowsPerPage || 10;
-  const maxPage = Math.ceil(tableRowsArray.length / rowsPerPage);
-
-  const renderRows = () => {
-    tableRowsArray.forEach((row) => {
-      row.style.display = "none";
-    });
-
-    const start = (currentPage - 1) * rowsPerPage;
-    const end = start + rowsPerPage;
-
-    const rowsToShow = tableRowsArray.slice(start, end);
-
-    rowsToShow.forEach((row) => {
-      row.style.display = "table-row";
-    });
-  };
-
-  const checkButtons = () => {
-    if (currentPage === 1) {
-      prevButton.disabled = true;
-    } else {
-      prevButton.disabled = false;
-    }
-
-    if (currentPage === maxPage) {
-      nextButton.disabled = true;
-    } else {
-      nextButton.disabled = false;
-    }
-
-    current.innerText = `${currentPage} / ${maxPage}`;
-  };
-
-  const prevPage = () => {
-    if (currentPage === 1) return;
-    currentPage--;
-    renderRows();
-    checkButtons();
-  };
-
-  const nextPage = () => {
-    if (currentPage === maxPage) return;
-    currentPage++;
-    renderRows();
-    checkButtons();
-  };
-
-  prevButton.addEventListener("click", prevPage);
-  nextButton.addEventListener("click", nextPage);
-
-  renderRows();
-  checkButtons();
+  return createDataTable(table, {
+    page: options?.currentPage,
+    pageSize: options?.rowsPerPage,
+    buttonClassName: options?.buttonClassName,
+    pageSizes: false,
+    sortable: false,
+    filterable: false,
+  });
 }
@@ -0,0 +1,564 @@
+/**
+ * Media capture: constraints, device enumeration and selection, permission
+ * errors and device changes.
+ * Path: src/media-devices.ts
+ */
+
+import { createEmitter, type Emitter } from "./events";
+import { createStore, type Store } from "./storage";
+
+export type MediaDeviceErrorCode =
+  | "permission-denied"
+  | "not-found"
+  | "overconstrained"
+  | "not-readable"
+  | "aborted"
+  | "unsupported";
+
+/** A failed capture request. Created by `createMediaDeviceError`. */
+export interface MediaDeviceError extends Error {
+  /**
+   * - "permission-denied": the user or a policy blocked access.
+   * - "not-found": no device of the requested kind.
+   * - "overconstrained": no device satisfies `constraint`.
+   * - "not-readable": the device is in use or failed.
+   * - "aborted": the request was interrupted.
+   * - "unsupported": capture is unavailable, e.g. outside a secure context.
+   */
+  code: MediaDeviceErrorCode;
+  /** The constraint that could not be satisfied. */
+  constraint?: string;
+}
+
+/** Device IDs chosen by the user, by kind. */
+export type SelectedDevices = Partial<Record<MediaDeviceKind, string>>;
+
+export interface DeviceChange {
+  devices: MediaDeviceInfo[];
+  added: MediaDeviceInfo[];
+  removed: MediaDeviceInfo[];
+}
+
+export interface MediaDeviceEvents {
+  devicechange: DeviceChange;
+  /** A device was selected, by the user or because the previous one went away. */
+  select: { kind: MediaDeviceKind; deviceId: string };
+  /** A track of the stream was replaced, e.g. to update RTCRtpSender.replaceTrack(). */
+  trackchange: {
+    kind: "audio" | "video";
+    track: MediaStreamTrack;
+    previous?: MediaStreamTrack;
+  };
+  error: MediaDeviceError;
+}
+
+export interface MediaDeviceManagerOptions {
+  /** Constraints merged over the defaults of `getMediaStream`. */
+  constraints?: MediaStreamConstraints;
+  /**
+   * Where to remember the selected devices. Defaults to a localStorage
+   * store in the "media-devices" namespace; false to not remember them.
+   */
+  store?: Store<SelectedDevices> | false;
+}
+
+export interface MediaDeviceManager {
+  on: Emitter<MediaDeviceEvents>["on"];
+  /** The stream from the last `start()`, kept when devices are switched. */
+  readonly stream: MediaStream | undefined;
+  readonly selected: SelectedDevices;
+  /**
+   * List devices, optionally of one kind. Labels are empty until the user
+   * has granted access.
+   */
+  list(kind?: MediaDeviceKind): Promise<MediaDeviceInfo[]>;
+  /** Start capturing with the selected devices. Rejects with a MediaDeviceError. */
+  start(constraints?: MediaStreamConstraints): Promise<MediaStream>;
+  /**
+   * Select a device. Cameras and microphones are switched on the live
+   * stream in place; speakers apply to attached media elements.
+   */
+  select(kind: MediaDeviceKind, deviceId: string): Promise<void>;
+  /** Show the stream in a media element and route it to the selected speaker. */
+  attach(el: HTMLMediaElement): () => void;
+  /** Query the permission, or undefined where the Permissions API cannot tell. */
+  permission(
+    kind: "camera" | "microphone"
+  ): Promise<PermissionState | undefined>;
+  /** Stop the tracks of the stream. */
+  stop(): void;
+  /** Stop the stream and the device change listener. */
+  destroy(): void;
+}
+
+export const DEFAULT_MEDIA_CONSTRAINTS: MediaStreamConstraints = {
+  video: {
+    facingMode: "user",
+    width: 640,
+    height: 480,
+  },
+  audio: {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+};
+
+// ========== Errors =======================
+
+const ERROR_CODES: readonly MediaDeviceErrorCode[] = [
+  "permission-denied",
+  "not-found",
+  "overconstrained",
+  "not-readable",
+  "aborted",
+  "unsupported",
+];
+
+/**
+ * @description Create a structured media device error.
+ * @param code
+ * @param message
+ * @param details The unsatisfied constraint and the original error.
+ * @returns
+ */
+export function createMediaDeviceError(
+  code: MediaDeviceErrorCode,
+  message: string,
+  { constraint, cause }: { constraint?: string; cause?: unknown } = {}
+): MediaDeviceError {
+  return Object.assign(new Error(message, { cause }), { code, constraint });
+}
+
+/**
+ * @description Check whether an error was created with `createMediaDeviceError`.
+ * @param error
+ * @returns
+ */
+export function isMediaDeviceError(error: unknown): error is MediaDeviceError {
+  // Native errors such as OverconstrainedError have a numeric DOMException code.
+  return (
+    error instanceof Error &&
+    "constraint" in error &&
+    "code" in error &&
+    typeof error.code === "string" &&
+    ERROR_CODES.includes(error.code as MediaDeviceErrorCode)
+  );
+}
+
+/**
+ * @description Translate an error of getUserMedia or getDisplayMedia into
+ * a MediaDeviceError. Other errors are returned as they are.
+ * @param error
+ * @returns
+ */
+export function toMediaDeviceError(error: unknown) {
+  if (isMediaDeviceError(error) || !(error instanceof Error)) return error;
+
+  // Older browsers use the names in the second column.
+  switch (error.name) {
+    case "NotAllowedError":
+    case "PermissionDeniedError":
+    case "SecurityError":
+      return createMediaDeviceError(
+        "permission-denied",
+        "Access to the camera or microphone was denied",
+        { cause: error }
+      );
+    case "NotFoundError":
+    case "DevicesNotFoundError":
+      return createMediaDeviceError(
+        "not-found",
+        "No camera or microphone was found",
+        { cause: error }
+      );
+    case "OverconstrainedError":
+    case "ConstraintNotSatisfiedError": {
+      const { constraint } = error as Error & { constraint?: string };
+      return createMediaDeviceError(
+        "overconstrained",
+        `No device satisfies the "${constraint}" constraint`,
+        { constraint, cause: error }
+      );
+    }
+    case "NotReadableError":
+    case "TrackStartError":
+      return createMediaDeviceError(
+        "not-readable",
+        "The camera or microphone is in use or not working",
+        { cause: error }
+      );
+    case "AbortError":
+      return createMediaDeviceError("aborted", "Media capture was aborted", {
+        cause: error,
+      });
+    default:
+      return error;
+  }
+}
+
+// ========== Constraints =======================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+function deepMerge(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+) {
+  const merged: Record<string, unknown> = { ...base };
+  Object.keys(override).forEach((key) => {
+    const value = override[key];
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? deepMerge(merged[key] as Record<string, unknown>, value)
+        : value;
+  });
+  return merged;
+}
+
+/**
+ * @description Merge capture constraints. Track constraints are merged
+ * deeply, so that `{ video: { width: 1280 } }` keeps the other video
+ * defaults; `true` keeps the base constraints and `false` turns the track off.
+ * @param base
+ * @param override
+ * @returns
+ */
+export function mergeConstraints(
+  base: MediaStreamConstraints,
+  override: MediaStreamConstraints = {}
+): MediaStreamConstraints {
+  const merged: MediaStreamConstraints = { ...base, ...override };
+  (["video", "audio"] as const).forEach((kind) => {
+    const value = override[kind];
+    if (value === undefined) {
+      merged[kind] = base[kind];
+    } else if (value === true) {
+      merged[kind] = base[kind] || true;
+    } else if (isPlainObject(value) && isPlainObject(base[kind])) {
+      merged[kind] = deepMerge(
+        base[kind] as Record<string, unknown>,
+        value
+      ) as MediaTrackConstraints;
+    }
+  });
+  return merged;
+}
+
+function mediaDevices() {
+  // Missing outside secure contexts.
+  if (typeof navigator === "undefined" || !navigator.mediaDevices) {
+    throw createMediaDeviceError(
+      "unsupported",
+      "Media capture requires a secure context (HTTPS)"
+    );
+  }
+  return navigator.mediaDevices;
+}
+
+/**
+ * @description Get a camera and microphone stream. The constraints are
+ * merged deeply over `DEFAULT_MEDIA_CONSTRAINTS`.
+ * @example
+ * const stream = await getMediaStream({ video: { width: 1280, height: 720 } });
+ * @param constraints
+ * @returns Rejects with a MediaDeviceError when access fails.
+ */
+export async function getMediaStream(constraints?: MediaStreamConstraints) {
+  try {
+    return await mediaDevices().getUserMedia(
+      mergeConstraints(DEFAULT_MEDIA_CONSTRAINTS, constraints)
+    );
+  } catch (error) {
+    throw toMediaDeviceError(error);
+  }
+}
+
+// ========== Device manager =======================
+
+const TRACK_KINDS = { videoinput: "video", audioinput: "audio" } as const;
+
+/**
+ * @description Create a manager for the camera, microphone and speaker.
+ * It lists devices, remembers the user's choice, switches devices on a
+ * live stream without touching the elements showing it, and falls back to
+ * the default device when the one in use is unplugged.
+ * @example
+ * const devices = createMediaDeviceManager();
+ * devices.attach(video);
+ * await devices.start();
+ * cameraSelect.addEventListener("change", () => devices.select("videoinput", cameraSelect.value));
+ * devices.on("devicechange", async () => fillSelect(await devices.list("videoinput")));
+ * @param options
+ * @returns
+ */
+export function createMediaDeviceManager({
+  constraints,
+  store,
+}: MediaDeviceManagerOptions = {}): MediaDeviceManager {
+  const events = createEmitter<MediaDeviceEvents>();
+  const elements = new Set<HTMLMediaElement>();
+  let selected: SelectedDevices = {};
+  let stream: MediaStream | undefined;
+  let devices: MediaDeviceInfo[] = [];
+  let base = mergeConstraints(DEFAULT_MEDIA_CONSTRAINTS, constraints);
+
+  // A store created here is destroyed with the manager.
+  const ownStore =
+    store === undefined
+      ? createStore<SelectedDevices>({ namespace: "media-devices" })
+      : undefined;
+  const saved = ownStore ?? (store || undefined);
+  const loaded = saved
+    ? Promise.all(
+        (["videoinput", "audioinput", "audiooutput"] as const).map(
+          async (kind) => {
+            const deviceId = await saved.get(kind);
+            // A selection made before the store answered wins.
+            if (deviceId && !selected[kind]) selected[kind] = deviceId;
+          }
+        )
+      ).catch(() => {})
+    : Promise.resolve();
+
+  const remember = (kind: MediaDeviceKind, deviceId: string) => {
+    selected = { ...selected, [kind]: deviceId };
+    saved?.set(kind, deviceId).catch(() => {});
+    events.emit("select", { kind, deviceId });
+  };
+
+  const list = async (kind?: MediaDeviceKind) => {
+    devices = await mediaDevices().enumerateDevices();
+    return kind ? devices.filter((device) => device.kind === kind) : devices;
+  };
+
+  // Constraints for one kind of track with a device. A saved device is
+  // only preferred, so that a missing one falls back to the default.
+  const trackConstraints = (
+    kind: "videoinput" | "audioinput",
+    deviceId: string | undefined,
+    exact: boolean
+  ): MediaTrackConstraints | boolean => {
+    const current = base[TRACK_KINDS[kind]];
+    if (!current) return false;
+    if (!deviceId) return current;
+    return {
+      ...(isPlainObject(current) ? current : {}),
+      deviceId: exact ? { exact: deviceId } : { ideal: deviceId },
+      // A chosen device overrides the facing mode.
+      ...(kind === "videoinput" ? { facingMode: undefined } : {}),
+    };
+  };
+
+  const setSinkId = (el: HTMLMediaElement, deviceId: string) => {
+    const media = el as HTMLMediaElement & {
+      setSinkId?: (id: string) => Promise<void>;
+    };
+    // Speaker selection is not available in every browser.
+    return media.setSinkId?.(deviceId).catch((error: unknown) => {
+      events.emit("error", toMediaDeviceError(error) as MediaDeviceError);
+    });
+  };
+
+  // Swap the track of one kind in the stream; elements showing the stream
+  // pick up the new track without a new srcObject.
+  const replaceTrack = (track: MediaStreamTrack) => {
+    const previous =
+      track.kind === "video"
+        ? stream!.getVideoTracks()[0]
+        : stream!.getAudioTracks()[0];
+    if (previous) {
+      previous.removeEventListener("ended", onTrackEnded);
+      stream!.removeTrack(previous);
+      previous.stop();
+    }
+    stream!.addTrack(track);
+    track.addEventListener("ended", onTrackEnded);
+    events.emit("trackchange", {
+      kind: track.kind as "audio" | "video",
+      track,
+      previous,
+    });
+  };
+
+  const switchDevice = async (
+    kind: "videoinput" | "audioinput",
+    deviceId: string | undefined
+  ) => {
+    const trackKind = TRACK_KINDS[kind];
+    if (!trackConstraints(kind, deviceId, false)) return;
+
+    const open = async (id: string | undefined) => {
+      const next = await mediaDevices().getUserMedia({
+        [trackKind]: trackConstraints(kind, id, id !== undefined),
+      });
+      const [track] =
+        trackKind === "video" ? next.getVideoTracks() : next.getAudioTracks();
+      replaceTrack(track);
+    };
+
+    // Release the old device first; some cannot be opened twice.
+    const old =
+      trackKind === "video"
+        ? stream!.getVideoTracks()[0]
+        : stream!.getAudioTracks()[0];
+    const previousId = old?.getSettings().deviceId;
+    old?.stop();
+
+    try {
+      await open(deviceId);
+    } catch (error) {
+      // Reopen the previous device, so that the stream is not left with an
+      // ended track. It may be gone, e.g. when it was unplugged.
+      if (old) await open(previousId).catch(() => {});
+      throw toMediaDeviceError(error);
+    }
+  };
+
+  // An unplugged device ends its track; continue with the default device.
+  const onTrackEnded = async (event: Event) => {
+    const track = event.target as MediaStreamTrack;
+    if (!stream?.getTracks().includes(track)) return;
+    const kind = track.kind === "video" ? "videoinput" : "audioinput";
+    const available = await list(kind).catch(() => []);
+    const deviceId = track.getSettings().deviceId;
+    if (available.some((device) => device.deviceId === deviceId)) return;
+
+    try {
+      await switchDevice(kind, undefined);
+      const current =
+        kind === "videoinput"
+          ? stream.getVideoTracks()[0]
+          : stream.getAudioTracks()[0];
+      const fallback = current?.getSettings().deviceId;
+      if (fallback) {
+        selected = { ...selected, [kind]: fallback };
+        events.emit("select", { kind, deviceId: fallback });
+      }
+    } catch (error) {
+      events.emit("error", toMediaDeviceError(error) as MediaDeviceError);
+    }
+  };
+
+  const onDeviceChange = async () => {
+    const previous = devices;
+    const current = await list().catch(() => previous);
+    const key = (device: MediaDeviceInfo) =>
+      `${device.kind}:${device.deviceId}`;
+    const before = new Set(previous.map(key));
+    const after = new Set(current.map(key));
+    const added = current.filter((device) => !before.has(key(device)));
+    const removed = previous.filter((device) => !after.has(key(device)));
+    if (added.length > 0 || removed.length > 0) {
+      events.emit("devicechange", { devices: current, added, removed });
+    }
+  };
+
+  const hasMediaDevices =
+    typeof navigator !== "undefined" && !!navigator.mediaDevices;
+  if (hasMediaDevices) {
+    navigator.mediaDevices.addEventListener("devicechange", onDeviceChange);
+    // Know the current devices, so that the first change can be compared.
+    list().catch(() => {});
+  }
+
+  const stop = () => {
+    stream?.getTracks().forEach((track) => {
+      track.removeEventListener("ended", onTrackEnded);
+      track.stop();
+    });
+  };
+
+  return {
+    on: events.on,
+    get stream() {
+      return stream;
+    },
+    get selected() {
+      return { ...selected };
+    },
+    list,
+    async start(overrides) {
+      await loaded;
+      stop();
+      if (overrides) base = mergeConstraints(base, overrides);
+
+      let next: MediaStream;
+      try {
+        next = await mediaDevices().getUserMedia({
+          ...base,
+          video: trackConstraints("videoinput", selected.videoinput, false),
+          audio: trackConstraints("audioinput", selected.audioinput, false),
+        });
+      } catch (error) {
+        throw toMediaDeviceError(error);
+      }
+
+      // Keep the same stream object so that attached elements update.
+      if (!stream) {
+        stream = next;
+      } else {
+        stream.getTracks().forEach((track) => stream!.removeTrack(track));
+        next.getTracks().forEach((track) => stream!.addTrack(track));
+      }
+      stream
+        .getTracks()
+        .forEach((track) => track.addEventListener("ended", onTrackEnded));
+      elements.forEach((el) => {
+        if (el.srcObject !== stream) el.srcObject = stream!;
+      });
+      // Labels are available now that access was granted.
+      list().catch(() => {});
+      return stream;
+    },
+    async select(kind, deviceId) {
+      await loaded;
+      if (kind === "audiooutput") {
+        await Promise.all([...elements].map((el) => setSinkId(el, deviceId)));
+      } else if (
+        stream &&
+        stream.getTracks().some((t) => t.readyState === "live")
+      ) {
+        await switchDevice(kind, deviceId);
+      }
+      remember(kind, deviceId);
+    },
+    attach(el) {
+      elements.add(el);
+      el.autoplay = true;
+      if (stream) el.srcObject = stream;
+      if (selected.audiooutput) setSinkId(el, selected.audiooutput);
+      return () => {
+        elements.delete(el);
+        if (el.srcObject === stream) el.srcObject = null;
+      };
+    },
+    async permission(kind) {
+      try {
+        const status = await navigator.permissions.query({
+          name: kind as PermissionName,
+        });
+        return status.state;
+      } catch {
+        // Firefox and older Safari do not know these permission names.
+        return undefined;
+      }
+    },
+    stop,
+    destroy() {
+      stop();
+      elements.clear();
+      if (hasMediaDevices) {
+        navigator.mediaDevices.removeEventListener(
+          "devicechange",
+          onDeviceChange
+        );
+      }
+      ownStore?.destroy();
+      events.clear();
+    },
+  };
+}
@@ -0,0 +1,504 @@
+/**
+ * Recording of camera, screen and canvas streams with MediaRecorder,
+ * including picture-in-picture composition and audio mixing.
+ * Path: src/media-recorder.ts
+ */
+
+import { createEmitter, type Emitter } from "./events";
+import type { UploadManager } from "./upload";
+
+/** Uploads a recorded segment. Segments are uploaded one at a time, in order. */
+export type SegmentUploader = (
+  segment: Blob,
+  index: number
+) => Promise<unknown>;
+
+export interface MediaRecorderOptions {
+  /**
+   * MIME type, or candidates in order of preference. Defaults to WebM with
+   * VP9 or VP8 and Opus, falling back to MP4 (Safari), or audio-only types
+   * for streams without video.
+   */
+  mimeType?: string | string[];
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+  /** Ms of media per chunk, and per uploaded segment. Defaults to 1000. */
+  timeslice?: number;
+  /** Stop once this many bytes were recorded. */
+  maxSize?: number;
+  /** Stop after this many ms of recording, not counting pauses. */
+  maxDuration?: number;
+  /** Frame rate when recording a canvas. Defaults to 30. */
+  frameRate?: number;
+  /**
+   * Upload chunks while recording, through an upload manager or a function.
+   * Only the first segment has the container header, so the server must
+   * join them in order to get a playable file.
+   */
+  upload?: UploadManager<unknown> | SegmentUploader;
+  /** Base name of the files given to an upload manager. Defaults to "recording". */
+  filename?: string;
+}
+
+export type RecorderState = "inactive" | "recording" | "paused";
+
+export interface MediaRecorderEvents {
+  start: void;
+  pause: void;
+  resume: void;
+  data: { chunk: Blob; index: number; size: number };
+  /** A limit was reached and the recording stopped. */
+  limit: { reason: "size" | "duration" };
+  segment: { index: number; size: number };
+  stop: { blob: Blob; duration: number };
+  error: { error: Error; segment?: number };
+}
+
+export interface MediaRecorderController {
+  on: Emitter<MediaRecorderEvents>["on"];
+  readonly state: RecorderState;
+  /** The negotiated MIME type, with codecs. */
+  readonly mimeType: string;
+  /** Bytes recorded so far. */
+  readonly size: number;
+  /** Ms recorded so far, not counting pauses. */
+  readonly duration: number;
+  /** The stream being recorded. */
+  readonly stream: MediaStream;
+  start(): void;
+  pause(): void;
+  resume(): void;
+  /**
+   * Stop recording. Resolves with the recording once every segment has
+   * been handed to the uploader, also when the recorder already stopped
+   * by itself.
+   */
+  stop(): Promise<Blob>;
+}
+
+export interface PictureInPictureOptions {
+  /** Size of the output. Defaults to the size of the main video. */
+  width?: number;
+  height?: number;
+  /** Defaults to 30. */
+  frameRate?: number;
+  /** Corner of the inset. Defaults to "bottom-right". */
+  position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+  /** Width of the inset as a fraction of the output width. Defaults to 0.25. */
+  size?: number;
+  /** Distance of the inset from the edges in px. Defaults to 16. */
+  margin?: number;
+  /** Mix the audio of both streams into the output. Defaults to true. */
+  audio?: boolean;
+}
+
+export interface ComposedStream {
+  stream: MediaStream;
+  canvas: HTMLCanvasElement;
+  /** Change the inset while recording. */
+  setLayout(
+    layout: Pick<PictureInPictureOptions, "position" | "size" | "margin">
+  ): void;
+  /** Stop drawing and release the output tracks. The input streams are left running. */
+  destroy(): void;
+}
+
+export interface MixedAudio {
+  stream: MediaStream;
+  /** Set the volume of one input, from 0 upwards. */
+  setGain(index: number, gain: number): void;
+  /** Close the audio context and release the output track. */
+  destroy(): void;
+}
+
+const VIDEO_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4;codecs=avc1,mp4a",
+  "video/mp4",
+];
+
+const AUDIO_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+  "audio/webm",
+];
+
+// ========== Recording =======================
+
+/**
+ * @description Pick the first MIME type the browser can record.
+ * @param candidates  Types in order of preference.
+ * @returns The type, or an empty string to let the browser choose.
+ */
+export function pickRecorderMimeType(candidates: string[] = VIDEO_TYPES) {
+  if (typeof MediaRecorder === "undefined") return "";
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+}
+
+function extensionOf(mimeType: string) {
+  const subtype = mimeType.split(";")[0].split("/")[1];
+  return subtype === "mp4" && mimeType.startsWith("audio/")
+    ? "m4a"
+    : subtype || "webm";
+}
+
+/**
+ * @description Record a stream or a canvas. Chunks are collected every
+ * `timeslice` ms and can be uploaded as they arrive. Recording stops on
+ * its own at `maxSize` or `maxDuration`, and when every video track has
+ * ended (every track, for audio-only streams), e.g. when the user ends a
+ * screen share. A stream from `composeStreams` draws on a canvas whose
+ * track never ends; stop its recording yourself.
+ * @example
+ * const recorder = createMediaRecorder(await getMediaStream(), {
+ *   maxDuration: 60_000,
+ *   upload: createUploadManager({ url: "/uploads" }),
+ * });
+ * recorder.start();
+ * const blob = await recorder.stop();
+ * @param source  Stream to record, or a canvas to capture.
+ * @param options
+ * @returns
+ */
+export function createMediaRecorder(
+  source: MediaStream | HTMLCanvasElement,
+  {
+    mimeType: preferred,
+    videoBitsPerSecond,
+    audioBitsPerSecond,
+    timeslice = 1000,
+    maxSize,
+    maxDuration,
+    frameRate = 30,
+    upload,
+    filename = "recording",
+  }: MediaRecorderOptions = {}
+): MediaRecorderController {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("MediaRecorder is not supported in this browser");
+  }
+
+  const stream =
+    source instanceof HTMLCanvasElement
+      ? source.captureStream(frameRate)
+      : source;
+  const hasVideo = stream.getVideoTracks().length > 0;
+  const candidates =
+    typeof preferred === "string"
+      ? [preferred]
+      : preferred ?? (hasVideo ? VIDEO_TYPES : AUDIO_TYPES);
+  const mimeType = pickRecorderMimeType(candidates);
+  if (typeof preferred === "string" && !mimeType) {
+    throw new Error(`Recording "${preferred}" is not supported`);
+  }
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType: mimeType || undefined,
+    videoBitsPerSecond,
+    audioBitsPerSecond,
+  });
+  const events = createEmitter<MediaRecorderEvents>();
+
+  let chunks: Blob[] = [];
+  let size = 0;
+  let elapsed = 0;
+  let resumedAt = 0;
+  let durationTimer: ReturnType<typeof setTimeout> | undefined;
+  let uploads = Promise.resolve();
+  let started = false;
+  let recording = false;
+
+  let resolveStopped!: (blob: Blob) => void;
+  const stopped = new Promise<Blob>((resolve) => (resolveStopped = resolve));
+
+  const duration = () =>
+    recording ? elapsed + performance.now() - resumedAt : elapsed;
+
+  const sendSegment = async (segment: Blob, index: number) => {
+    if (typeof upload === "function") {
+      await upload(segment, index);
+      return;
+    }
+    const type = recorder.mimeType || segment.type;
+    const name = `${filename}-${String(index).padStart(5, "0")}.${extensionOf(
+      type
+    )}`;
+    const [result] = await upload!.upload([
+      new File([segment], name, { type }),
+    ]);
+    if (result?.error) throw result.error;
+  };
+
+  const limitReached = (reason: "size" | "duration") => {
+    if (recorder.state === "inactive") return;
+    events.emit("limit", { reason });
+    stop();
+  };
+
+  // Count down the rest of maxDuration while recording.
+  const scheduleDurationLimit = () => {
+    clearTimeout(durationTimer);
+    if (maxDuration === undefined) return;
+    durationTimer = setTimeout(
+      () => limitReached("duration"),
+      Math.max(0, maxDuration - elapsed)
+    );
+  };
+
+  recorder.addEventListener("dataavailable", (event) => {
+    if (event.data.size === 0) return;
+    const index = chunks.length;
+    chunks.push(event.data);
+    size += event.data.size;
+    events.emit("data", { chunk: event.data, index, size });
+
+    if (upload) {
+      uploads = uploads.then(() =>
+        sendSegment(event.data, index).then(
+          () => events.emit("segment", { index, size: event.data.size }),
+          (error) => events.emit("error", { error, segment: index })
+        )
+      );
+    }
+    if (maxSize !== undefined && size >= maxSize) limitReached("size");
+  });
+
+  recorder.addEventListener("error", (event) => {
+    const error = (event as Event & { error?: Error }).error;
+    events.emit("error", { error: error ?? new Error("Recording failed") });
+  });
+
+  // Ending a screen share from the browser's UI ends the video track,
+  // while a microphone recorded with it stays live.
+  const watched = hasVideo ? stream.getVideoTracks() : stream.getTracks();
+  const onTrackEnded = () => {
+    if (recorder.state === "inactive") return;
+    if (watched.every((track) => track.readyState === "ended")) stop();
+  };
+  watched.forEach((track) => track.addEventListener("ended", onTrackEnded));
+
+  // The recorder also stops by itself, e.g. after an error or when the
+  // browser ends its tracks, so the recording is finished here rather
+  // than in stop(). The last chunk arrives before the stop event.
+  recorder.addEventListener("stop", async () => {
+    elapsed = duration();
+    recording = false;
+    clearTimeout(durationTimer);
+    watched.forEach((track) =>
+      track.removeEventListener("ended", onTrackEnded)
+    );
+
+    const blob = new Blob(chunks, {
+      type: recorder.mimeType || mimeType || chunks[0]?.type,
+    });
+    chunks = [];
+    await uploads;
+    events.emit("stop", { blob, duration: elapsed });
+    resolveStopped(blob);
+  });
+
+  const start = () => {
+    if (recorder.state !== "inactive") return;
+    if (started) throw new Error("A stopped recorder cannot start again");
+    recorder.start(timeslice);
+    started = true;
+    recording = true;
+    resumedAt = performance.now();
+    scheduleDurationLimit();
+    events.emit("start", undefined);
+  };
+
+  const pause = () => {
+    if (recorder.state !== "recording") return;
+    recorder.pause();
+    elapsed += performance.now() - resumedAt;
+    recording = false;
+    clearTimeout(durationTimer);
+    events.emit("pause", undefined);
+  };
+
+  const resume = () => {
+    if (recorder.state !== "paused") return;
+    recorder.resume();
+    recording = true;
+    resumedAt = performance.now();
+    scheduleDurationLimit();
+    events.emit("resume", undefined);
+  };
+
+  const stop = () => {
+    if (!started) {
+      return Promise.reject(new Error("The recorder has not started"));
+    }
+    if (recorder.state !== "inactive") recorder.stop();
+    return stopped;
+  };
+
+  return {
+    on: events.on,
+    get state() {
+      return recorder.state;
+    },
+    get mimeType() {
+      return recorder.mimeType || mimeType;
+    },
+    get size() {
+      return size;
+    },
+    get duration() {
+      return duration();
+    },
+    stream,
+    start,
+    pause,
+    resume,
+    stop,
+  };
+}
+
+// ========== Mixing =======================
+
+/**
+ * @description Mix the audio of several streams, e.g. a microphone and a
+ * screen share, into one track with Web Audio.
+ * @example
+ * const mixed = mixAudioTracks([microphone, screen], [1, 0.5]);
+ * createMediaRecorder(new MediaStream([...screen.getVideoTracks(), ...mixed.stream.getAudioTracks()]));
+ * @param streams  Streams whose audio tracks to mix. Streams without audio are skipped.
+ * @param gains  Volume of each stream. Defaults to 1.
+ * @returns
+ */
+export function mixAudioTracks(
+  streams: MediaStream[],
+  gains: number[] = []
+): MixedAudio {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+
+  const nodes = streams.map((stream, index) => {
+    const gain = context.createGain();
+    gain.gain.value = gains[index] ?? 1;
+    gain.connect(destination);
+    if (stream.getAudioTracks().length > 0) {
+      context.createMediaStreamSource(stream).connect(gain);
+    }
+    return gain;
+  });
+
+  // Contexts created without a user gesture start suspended.
+  if (context.state === "suspended") context.resume().catch(() => {});
+
+  return {
+    stream: destination.stream,
+    setGain(index, gain) {
+      const node = nodes[index];
+      if (!node) throw new Error(`No audio input at index ${index}`);
+      node.gain.setValueAtTime(gain, context.currentTime);
+    },
+    destroy() {
+      destination.stream.getTracks().forEach((track) => track.stop());
+      context.close().catch(() => {});
+    },
+  };
+}
+
+function playHidden(stream: MediaStream) {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(() => {});
+  return video;
+}
+
+/**
+ * @description Composite a screen share with a camera inset on a canvas,
+ * for recording both as one video. The audio of both streams is mixed.
+ * Drawing uses a timer rather than animation frames, so that it continues
+ * at a reduced rate while the tab is in the background.
+ * @example
+ * const composed = composeStreams(await getDisplayMedia(), await getMediaStream(), {
+ *   position: "bottom-left",
+ * });
+ * const recorder = createMediaRecorder(composed.stream);
+ * @param main  Stream that fills the output, usually the screen.
+ * @param inset  Stream shown in a corner, usually the camera.
+ * @param options
+ * @returns
+ */
+export function composeStreams(
+  main: MediaStream,
+  inset: MediaStream,
+  {
+    width,
+    height,
+    frameRate = 30,
+    position = "bottom-right",
+    size = 0.25,
+    margin = 16,
+    audio = true,
+  }: PictureInPictureOptions = {}
+): ComposedStream {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  const mainVideo = playHidden(main);
+  const insetVideo = playHidden(inset);
+  let layout = { position, size, margin };
+
+  const draw = () => {
+    const sourceWidth = mainVideo.videoWidth;
+    const sourceHeight = mainVideo.videoHeight;
+    if (!sourceWidth || !sourceHeight) return;
+
+    // Follow the main video, e.g. when the shared window is resized.
+    const outputWidth = width ?? sourceWidth;
+    const outputHeight = height ?? sourceHeight;
+    if (canvas.width !== outputWidth) canvas.width = outputWidth;
+    if (canvas.height !== outputHeight) canvas.height = outputHeight;
+
+    ctx.drawImage(mainVideo, 0, 0, canvas.width, canvas.height);
+
+    if (!insetVideo.videoWidth || !insetVideo.videoHeight) return;
+    const insetWidth = Math.round(canvas.width * layout.size);
+    const insetHeight = Math.round(
+      (insetWidth * insetVideo.videoHeight) / insetVideo.videoWidth
+    );
+    const x = layout.position.endsWith("left")
+      ? layout.margin
+      : canvas.width - insetWidth - layout.margin;
+    const y = layout.position.startsWith("top")
+      ? layout.margin
+      : canvas.height - insetHeight - layout.margin;
+    ctx.drawImage(insetVideo, x, y, insetWidth, insetHeight);
+  };
+
+  const intervalId = setInterval(draw, 1000 / frameRate);
+  const output = canvas.captureStream(frameRate);
+  const hasAudio = [main, inset].some(
+    (stream) => stream.getAudioTracks().length > 0
+  );
+  const mixed = audio && hasAudio ? mixAudioTracks([main, inset]) : undefined;
+  mixed?.stream.getAudioTracks().forEach((track) => output.addTrack(track));
+
+  return {
+    stream: output,
+    canvas,
+    setLayout(next) {
+      layout = { ...layout, ...next };
+    },
+    destroy() {
+      clearInterval(intervalId);
+      output.getTracks().forEach((track) => track.stop());
+      mixed?.destroy();
+      [mainVideo, insetVideo].forEach((video) => {
+        video.pause();
+        video.srcObject = null;
+      });
+    },
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * WAI-ARIA menu button for the css/menubtn.css markup:
+ * `.menu-button-wrapper > .menu-button + .menu-button-menu > li`.
+ * Path: src/menu-button.ts
+ */
+
+import { onClickOutside } from "./dom";
+import { createEmitter, type Emitter } from "./events";
+
+export interface MenuButtonSelect {
+  item: HTMLElement;
+  index: number;
+  /** The item's `data-value`, or its text. */
+  value: string;
+}
+
+export interface MenuButtonEvents {
+  select: MenuButtonSelect;
+  open: void;
+  close: void;
+}
+
+export interface MenuButtonOptions {
+  /** Defaults to the `.menu-button` inside the wrapper. */
+  button?: HTMLElement;
+  /** Defaults to the `.menu-button-menu` inside the wrapper. */
+  menu?: HTMLElement;
+  /** Selector for the items inside the menu. Defaults to "li". */
+  itemSelector?: string;
+  /** Close the menu after an item is selected. Defaults to true. */
+  closeOnSelect?: boolean;
+  /** Time in ms after which typeahead starts a new search. Defaults to 500. */
+  typeaheadTimeout?: number;
+}
+
+export interface MenuButton {
+  button: HTMLElement;
+  menu: HTMLElement;
+  readonly isOpen: boolean;
+  on: Emitter<MenuButtonEvents>["on"];
+  /** Open the menu and focus its first or last item. */
+  open(focus?: "first" | "last"): void;
+  /** Close the menu, optionally moving focus back to the button. */
+  close(restoreFocus?: boolean): void;
+  toggle(): void;
+  /** Remove listeners and ARIA attributes. */
+  destroy(): void;
+}
+
+let nextId = 0;
+
+/**
+ * @description Add menu button behavior to `menubtn.css` markup.
+ * The menu opens on click, Enter, Space and ArrowDown (ArrowUp focuses the
+ * last item). Arrow keys, Home, End and typeahead move focus between items;
+ * Escape, Tab and clicks outside close it. The menu flips above the button or
+ * aligns to its right edge when it would overflow the viewport.
+ * @example
+ * const menu = initMenuButton(document.querySelector(".menu-button-wrapper")!);
+ * menu.on("select", ({ value }) => console.log(value));
+ * @param wrapper The `.menu-button-wrapper` element.
+ * @param options
+ * @returns
+ */
+export function initMenuButton(
+  wrapper: HTMLElement,
+  {
+    button = wrapper.querySelector<HTMLElement>(".menu-button") ?? undefined,
+    menu = wrapper.querySelector<HTMLElement>(".menu-button-menu") ?? undefined,
+    itemSelector = "li",
+    closeOnSelect = true,
+    typeaheadTimeout = 500,
+  }: MenuButtonOptions = {}
+): MenuButton {
+  if (!button || !menu) {
+    throw new Error(
+      "Menu button markup needs a .menu-button and a .menu-button-menu"
+    );
+  }
+
+  const events = createEmitter<MenuButtonEvents>();
+  const id = `menu-button-${++nextId}`;
+  let isOpen = false;
+  let removeClickOutside: (() => void) | undefined;
+  let typeahead = "";
+  let typeaheadTimer: ReturnType<typeof setTimeout> | undefined;
+
+  if (!button.id) button.id = `${id}-button`;
+  if (!menu.id) menu.id = `${id}-menu`;
+  button.setAttribute("aria-haspopup", "menu");
+  button.setAttribute("aria-controls", menu.id);
+  button.setAttribute("aria-expanded", "false");
+  menu.setAttribute("role", "menu");
+  menu.setAttribute("aria-labelledby", button.id);
+  wrapper.dataset.menuButton = "";
+
+  // Queried on every use so that items can be added or removed at any time.
+  const items = () =>
+    Array.from(menu.querySelectorAll<HTMLElement>(itemSelector)).filter(
+      (item) => item.getAttribute("aria-disabled") !== "true"
+    );
+
+  const prepareItems = () => {
+    menu.querySelectorAll<HTMLElement>(itemSelector).forEach((item) => {
+      item.setAttribute("role", "menuitem");
+      item.tabIndex = -1;
+    });
+  };
+
+  // Roving tabindex: only the focused item is in the tab order.
+  const focusItem = (item: HTMLElement | undefined) => {
+    if (!item) return;
+    items().forEach((other) => (other.tabIndex = other === item ? 0 : -1));
+    item.focus();
+  };
+
+  const currentIndex = () =>
+    items().indexOf(document.activeElement as HTMLElement);
+
+  const place = () => {
+    delete menu.dataset.placement;
+    delete menu.dataset.align;
+
+    const rect = menu.getBoundingClientRect();
+    const anchor = button.getBoundingClientRect();
+    const spaceBelow = window.innerHeight - anchor.bottom;
+    const spaceAbove = anchor.top;
+
+    if (rect.bottom > window.innerHeight && spaceAbove > spaceBelow) {
+      menu.dataset.placement = "top";
+    }
+    if (rect.right > window.innerWidth && anchor.right - rect.width >= 0) {
+      menu.dataset.align = "end";
+    }
+  };
+
+  const open = (focus: "first" | "last" = "first") => {
+    if (!isOpen) {
+      isOpen = true;
+      prepareItems();
+      wrapper.classList.add("open");
+      button.setAttribute("aria-expanded", "true");
+      place();
+      removeClickOutside = onClickOutside(wrapper, () => close(false));
+      events.emit("open", undefined);
+    }
+
+    const list = items();
+    focusItem(focus === "first" ? list[0] : list[list.length - 1]);
+  };
+
+  const close = (restoreFocus = true) => {
+    if (!isOpen) return;
+    isOpen = false;
+    wrapper.classList.remove("open");
+    button.setAttribute("aria-expanded", "false");
+    removeClickOutside?.();
+    removeClickOutside = undefined;
+    if (restoreFocus) button.focus();
+    events.emit("close", undefined);
+  };
+
+  const select = (item: HTMLElement) => {
+    const index = items().indexOf(item);
+    if (index < 0) return;
+    events.emit("select", {
+      item,
+      index,
+      value: item.dataset.value ?? item.textContent?.trim() ?? "",
+    });
+    if (closeOnSelect) close();
+  };
+
+  // Focus the next item whose text starts with the typed characters.
+  const search = (char: string) => {
+    clearTimeout(typeaheadTimer);
+    typeaheadTimer = setTimeout(() => (typeahead = ""), typeaheadTimeout);
+
+    // Repeating one letter cycles through the items starting with it.
+    typeahead = typeahead === char ? char : typeahead + char;
+
+    const list = items();
+    const start = currentIndex() + (typeahead.length === 1 ? 1 : 0);
+    for (let i = 0; i < list.length; i++) {
+      const item = list[(start + i) % list.length];
+      const text = item.textContent?.trim().toLowerCase() ?? "";
+      if (text.startsWith(typeahead)) return focusItem(item);
+    }
+  };
+
+  const onButtonClick = () => {
+    if (isOpen) close();
+    else open();
+  };
+
+  const onButtonKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      open(event.key === "ArrowDown" ? "first" : "last");
+    }
+  };
+
+  const onMenuKeyDown = (event: KeyboardEvent) => {
+    const list = items();
+    const index = currentIndex();
+
+    switch (event.key) {
+      case "ArrowDown":
+        focusItem(list[(index + 1) % list.length]);
+        break;
+      case "ArrowUp":
+        focusItem(list[(index - 1 + list.length) % list.length]);
+        break;
+      case "Home":
+        focusItem(list[0]);
+        break;
+      case "End":
+        focusItem(list[list.length - 1]);
+        break;
+      case "Escape":
+        close();
+        break;
+      case "Tab":
+        close(false);
+        return;
+      case "Enter":
+      case " ":
+        if (list[index]) select(list[index]);
+        break;
+      default:
+        if (
+          event.key.length === 1 &&
+          !event.ctrlKey &&
+          !event.metaKey &&
+          !event.altKey
+        ) {
+          search(event.key.toLowerCase());
+          break;
+        }
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const onMenuClick = (event: MouseEvent) => {
+    const item = (event.target as HTMLElement).closest<HTMLElement>(
+      itemSelector
+    );
+    if (item && menu.contains(item)) select(item);
+  };
+
+  button.addEventListener("click", onButtonClick);
+  button.addEventListener("keydown", onButtonKeyDown);
+  menu.addEventListener("keydown", onMenuKeyDown);
+  menu.addEventListener("click", onMenuClick);
+
+  return {
+    button,
+    menu,
+    get isOpen() {
+      return isOpen;
+    },
+    on: events.on,
+    open,
+    close,
+    toggle: () => (isOpen ? close() : open()),
+    destroy() {
+      close(false);
+      clearTimeout(typeaheadTimer);
+      button.removeEventListener("click", onButtonClick);
+      button.removeEventListener("keydown", onButtonKeyDown);
+      menu.removeEventListener("keydown", onMenuKeyDown);
+      menu.removeEventListener("click", onMenuClick);
+      ["aria-haspopup", "aria-controls", "aria-expanded"].forEach((name) =>
+        button.removeAttribute(name)
+      );
+      menu.removeAttribute("role");
+      menu.removeAttribute("aria-labelledby");
+      menu.querySelectorAll(itemSelector).forEach((item) => {
+        item.removeAttribute("role");
+        item.removeAttribute("tabindex");
+      });
+      delete wrapper.dataset.menuButton;
+      events.clear();
+    },
+  };
+}
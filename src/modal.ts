@@ -0,0 +1,507 @@
+/**
+ * Accessible modal dialogs with focus trapping, stacking and transitions.
+ * Styles and transitions live in css/modal.css.
+ * Path: src/modal.ts
+ */
+
+export interface ModalButton<T = unknown> {
+  text: string;
+  /** Close the modal with this value when clicked. */
+  value?: T;
+  /**
+   * Called before the modal closes. Call `event.preventDefault()` to keep a
+   * button with a `value` from closing the modal.
+   */
+  onClick?: (modal: Modal<T>, event: MouseEvent) => void;
+  className?: string;
+  /** Focus this button when the modal opens. */
+  autofocus?: boolean;
+}
+
+export interface ModalOptions<T = unknown> {
+  title?: string;
+  /** Body of the modal. Strings are rendered as text. */
+  content?: Node | string;
+  buttons?: ModalButton<T>[];
+  /** "alertdialog" for messages that need a response. Defaults to "dialog". */
+  role?: "dialog" | "alertdialog";
+  /** Accessible name when there is no title. */
+  label?: string;
+  /** Close when Escape is pressed. Defaults to true. */
+  closeOnEscape?: boolean;
+  /** Close when the backdrop is clicked. Defaults to true. */
+  closeOnBackdrop?: boolean;
+  /** Element or selector (inside the modal) to focus when it opens. */
+  initialFocus?: HTMLElement | string;
+  /** Extra class names for the `.modal-inner` element. */
+  className?: string;
+  /** Called after the modal has closed and been removed. */
+  onClose?: (value: T | undefined) => void;
+}
+
+export interface Modal<T = unknown> {
+  /** The `.modal` backdrop. */
+  element: HTMLElement;
+  /** The `.modal-inner` element with role="dialog". */
+  dialog: HTMLElement;
+  readonly isOpen: boolean;
+  /**
+   * Resolves with the value the modal was closed with, or undefined when it
+   * was dismissed with Escape or a backdrop click.
+   */
+  result: Promise<T | undefined>;
+  /** Close the modal. Resolves once the leave transition has finished. */
+  close(value?: T): Promise<void>;
+}
+
+const FOCUSABLE = [
+  "a[href]",
+  "area[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "iframe",
+  "audio[controls]",
+  "video[controls]",
+  "[contenteditable]:not([contenteditable='false'])",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+// Open modals, topmost last. Only the topmost one handles keys and focus.
+const stack: Modal<any>[] = [];
+const handles = new WeakMap<HTMLElement, Modal<any>>();
+let nextId = 0;
+
+function focusableElements(container: HTMLElement) {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => !el.closest("[inert]") && el.getClientRects().length > 0
+  );
+}
+
+// Resolve after the element's CSS transition, or immediately if it has none.
+function transitionEnd(element: HTMLElement) {
+  const style = getComputedStyle(element);
+  const toMs = (value: string) =>
+    Math.max(
+      0,
+      ...value
+        .split(",")
+        .map((part) => parseFloat(part) * (part.includes("ms") ? 1 : 1000))
+        .filter((ms) => !isNaN(ms))
+    );
+  const duration =
+    toMs(style.transitionDuration || "") + toMs(style.transitionDelay || "");
+
+  return new Promise<void>((resolve) => {
+    if (duration === 0) return resolve();
+
+    const done = () => {
+      clearTimeout(timeoutId);
+      element.removeEventListener("transitionend", onEnd);
+      resolve();
+    };
+    const onEnd = (event: TransitionEvent) => {
+      if (event.target === element) done();
+    };
+    // transitionend does not fire if the transition is interrupted.
+    const timeoutId = setTimeout(done, duration + 50);
+    element.addEventListener("transitionend", onEnd);
+  });
+}
+
+function onKeyDown(event: KeyboardEvent) {
+  const top = stack[stack.length - 1];
+  if (!top) return;
+
+  if (event.key === "Escape") {
+    if (top.element.dataset.closeOnEscape === "false") return;
+    event.preventDefault();
+    event.stopPropagation();
+    top.close();
+    return;
+  }
+
+  if (event.key !== "Tab") return;
+
+  const focusable = focusableElements(top.dialog);
+  if (focusable.length === 0) {
+    event.preventDefault();
+    top.dialog.focus();
+    return;
+  }
+
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+
+  if (event.shiftKey && (active === first || !top.dialog.contains(active))) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+// Pull focus back into the topmost modal if it escapes (e.g. a mouse click).
+function onFocusIn(event: FocusEvent) {
+  const top = stack[stack.length - 1];
+  if (!top || top.dialog.contains(event.target as Node)) return;
+  (focusableElements(top.dialog)[0] ?? top.dialog).focus();
+}
+
+function pushModal(modal: Modal<any>) {
+  if (stack.length === 0) {
+    document.addEventListener("keydown", onKeyDown, true);
+    document.addEventListener("focusin", onFocusIn);
+    document.documentElement.classList.add("modal-open");
+  }
+  stack.push(modal);
+}
+
+function removeModal(modal: Modal<any>) {
+  const index = stack.indexOf(modal);
+  if (index >= 0) stack.splice(index, 1);
+  if (stack.length === 0) {
+    document.removeEventListener("keydown", onKeyDown, true);
+    document.removeEventListener("focusin", onFocusIn);
+    document.documentElement.classList.remove("modal-open");
+  }
+}
+
+/**
+ * @description Open an accessible modal dialog.
+ * Focus is trapped inside the modal and restored when it closes. Modals can be
+ * stacked; Escape and backdrop clicks only close the topmost one.
+ * @example
+ * const modal = openModal({
+ *   title: "Delete file?",
+ *   content: "This cannot be undone.",
+ *   buttons: [
+ *     { text: "Cancel", value: false },
+ *     { text: "Delete", value: true, autofocus: true },
+ *   ],
+ * });
+ * if (await modal.result) deleteFile();
+ * @param options
+ * @returns
+ */
+export function openModal<T = unknown>({
+  title,
+  content,
+  buttons,
+  role = "dialog",
+  label,
+  closeOnEscape = true,
+  closeOnBackdrop = true,
+  initialFocus,
+  className,
+  onClose,
+}: ModalOptions<T> = {}): Modal<T> {
+  const id = `modal-${++nextId}`;
+  const returnFocus = document.activeElement as HTMLElement | null;
+
+  const element = document.createElement("div");
+  element.classList.add("modal");
+  element.dataset.closeOnEscape = String(closeOnEscape);
+
+  const dialog = document.createElement("div");
+  dialog.classList.add("modal-inner");
+  if (className) dialog.classList.add(...className.split(/\s+/));
+  dialog.setAttribute("role", role);
+  dialog.setAttribute("aria-modal", "true");
+  dialog.tabIndex = -1;
+
+  if (title) {
+    const heading = document.createElement("h2");
+    heading.classList.add("modal-title");
+    heading.id = `${id}-title`;
+    heading.textContent = title;
+    dialog.appendChild(heading);
+    dialog.setAttribute("aria-labelledby", heading.id);
+  } else if (label) {
+    dialog.setAttribute("aria-label", label);
+  }
+
+  if (content !== undefined) {
+    const body = document.createElement("div");
+    body.classList.add("modal-content");
+    body.id = `${id}-content`;
+    if (typeof content === "string") {
+      const paragraph = document.createElement("p");
+      paragraph.textContent = content;
+      body.appendChild(paragraph);
+    } else {
+      body.appendChild(content);
+    }
+    dialog.appendChild(body);
+    dialog.setAttribute("aria-describedby", body.id);
+  }
+
+  let isOpen = true;
+  let resolveResult!: (value: T | undefined) => void;
+  const result = new Promise<T | undefined>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  let closing: Promise<void> | undefined;
+  const close = (value?: T) => {
+    if (closing) return closing;
+    isOpen = false;
+    removeModal(modal);
+    resolveResult(value);
+
+    element.classList.remove("modal-visible");
+    closing = transitionEnd(element).then(() => {
+      element.remove();
+      handles.delete(element);
+      if (returnFocus?.isConnected) returnFocus.focus();
+      onClose?.(value);
+    });
+    return closing;
+  };
+
+  const modal: Modal<T> = {
+    element,
+    dialog,
+    get isOpen() {
+      return isOpen;
+    },
+    result,
+    close,
+  };
+
+  let autofocus: HTMLElement | undefined;
+  if (buttons?.length) {
+    const footer = document.createElement("div");
+    footer.classList.add("modal-buttons");
+
+    buttons.forEach((button) => {
+      const buttonEl = document.createElement("button");
+      buttonEl.type = "button";
+      buttonEl.textContent = button.text;
+      if (button.className) {
+        buttonEl.classList.add(...button.className.split(/\s+/));
+      }
+      if (button.autofocus) autofocus = buttonEl;
+
+      buttonEl.addEventListener("click", (event) => {
+        button.onClick?.(modal, event);
+        if ("value" in button && !event.defaultPrevented) {
+          close(button.value);
+        }
+      });
+      footer.appendChild(buttonEl);
+    });
+
+    dialog.appendChild(footer);
+  }
+
+  // Only close when both press and release happen on the backdrop, so that
+  // selecting text inside the dialog and releasing outside does not close it.
+  let pressedBackdrop = false;
+  element.addEventListener("mousedown", (event) => {
+    pressedBackdrop = event.target === element;
+  });
+  element.addEventListener("click", (event) => {
+    if (closeOnBackdrop && pressedBackdrop && event.target === element) {
+      close();
+    }
+    pressedBackdrop = false;
+  });
+
+  element.appendChild(dialog);
+  document.body.appendChild(element);
+  handles.set(element, modal);
+  pushModal(modal);
+
+  const target =
+    typeof initialFocus === "string"
+      ? dialog.querySelector<HTMLElement>(initialFocus)
+      : initialFocus;
+  (
+    target ??
+    autofocus ??
+    dialog.querySelector<HTMLElement>("[autofocus]") ??
+    focusableElements(dialog)[0] ??
+    dialog
+  ).focus();
+
+  // Apply the hidden state first so the enter transition runs.
+  void element.offsetWidth;
+  element.classList.add("modal-visible");
+
+  return modal;
+}
+
+/**
+ * @description Get the handle of an open modal from its `.modal` element.
+ * @param element
+ * @returns
+ */
+export function getModal(element: HTMLElement) {
+  return handles.get(element);
+}
+
+/**
+ * @description Close every open modal, topmost first.
+ * @returns A promise that resolves when all modals have closed.
+ */
+export function closeAllModals() {
+  return Promise.all([...stack].reverse().map((modal) => modal.close()));
+}
+
+// ========== Dialog helpers =======================
+
+export interface AlertOptions {
+  title?: string;
+  okText?: string;
+}
+
+export interface ConfirmOptions extends AlertOptions {
+  cancelText?: string;
+}
+
+export interface PromptOptions extends ConfirmOptions {
+  defaultValue?: string;
+  placeholder?: string;
+  /** Input type. Defaults to "text". */
+  type?: string;
+  /** Input label. Defaults to the message. */
+  label?: string;
+}
+
+/**
+ * @description Show a message with an OK button.
+ * @param message
+ * @param options
+ * @returns A promise that resolves when the dialog is closed.
+ */
+export async function alertDialog(
+  message: string,
+  { title, okText = "OK" }: AlertOptions = {}
+) {
+  const modal = openModal({
+    title,
+    label: title ? undefined : message,
+    content: message,
+    role: "alertdialog",
+    closeOnBackdrop: false,
+    buttons: [{ text: okText, value: true, autofocus: true }],
+  });
+  await modal.result;
+}
+
+/**
+ * @description Ask the user to confirm or cancel.
+ * @param message
+ * @param options
+ * @returns true if confirmed; false if cancelled or dismissed.
+ */
+export async function confirmDialog(
+  message: string,
+  { title, okText = "OK", cancelText = "Cancel" }: ConfirmOptions = {}
+) {
+  const modal = openModal<boolean>({
+    title,
+    label: title ? undefined : message,
+    content: message,
+    role: "alertdialog",
+    closeOnBackdrop: false,
+    buttons: [
+      { text: cancelText, value: false },
+      { text: okText, value: true, autofocus: true },
+    ],
+  });
+  return (await modal.result) ?? false;
+}
+
+/**
+ * @description Ask the user for a value.
+ * @param message
+ * @param options
+ * @returns The entered value, or null if cancelled or dismissed.
+ */
+export async function promptDialog(
+  message: string,
+  {
+    title,
+    okText = "OK",
+    cancelText = "Cancel",
+    defaultValue = "",
+    placeholder,
+    type = "text",
+    label,
+  }: PromptOptions = {}
+) {
+  const form = document.createElement("form");
+  form.classList.add("modal-prompt");
+
+  const labelEl = document.createElement("label");
+  labelEl.textContent = label ?? message;
+
+  const input = document.createElement("input");
+  input.type = type;
+  input.value = defaultValue;
+  if (placeholder) input.placeholder = placeholder;
+  labelEl.appendChild(input);
+  form.appendChild(labelEl);
+
+  const modal = openModal<string | null>({
+    title,
+    label: title ? undefined : message,
+    content: form,
+    closeOnBackdrop: false,
+    initialFocus: input,
+    buttons: [
+      { text: cancelText, value: null },
+      {
+        text: okText,
+        onClick: () => form.requestSubmit(),
+      },
+    ],
+  });
+
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();
+    if (!form.reportValidity()) return;
+    modal.close(input.value);
+  });
+  input.select();
+
+  return (await modal.result) ?? null;
+}
+
+// ========== Legacy API =======================
+
+/**
+ * @description Create and open a modal.
+ * Prefer `openModal`, which returns a handle with the result.
+ * @param options
+ * @returns The `.modal` element.
+ */
+export function createModal(options: {
+  title: string;
+  content: Node;
+  buttons?: { text: string; onClick: (modal: Modal) => void }[];
+}) {
+  return openModal(options).element;
+}
+
+/**
+ * @description Close a modal created with `createModal`.
+ * @param modal The `.modal` element.
+ */
+export function closeModal(modal: HTMLElement) {
+  if (!modal) return;
+  const handle = handles.get(modal);
+  if (handle) {
+    handle.close();
+  } else {
+    modal.remove();
+    if (stack.length === 0) {
+      document.documentElement.classList.remove("modal-open");
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  createRateLimiter,
+  debounce,
+  debounceAsync,
+  sleep,
+  throttle,
+} from "./scheduling";
+
+describe("sleep", () => {
+  test("rejects with the reason when aborted", async () => {
+    const controller = new AbortController();
+    const slept = sleep(1000, controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(slept).rejects.toThrow("stop");
+    await expect(sleep(10, controller.signal)).rejects.toThrow("stop");
+  });
+});
+
+describe("debounce", () => {
+  test("calls once after the burst with the latest arguments", async () => {
+    const func = mock((_value: number) => {});
+    const debounced = debounce(func, 40);
+
+    debounced(1);
+    await sleep(10);
+    debounced(2);
+    await sleep(10);
+    expect(func).not.toHaveBeenCalled();
+
+    await sleep(60);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func.mock.calls[0]).toEqual([2]);
+  });
+
+  test("calls on the leading edge only", async () => {
+    const func = mock((_value: number) => {});
+    const debounced = debounce(func, 20, { leading: true, trailing: false });
+
+    debounced(1);
+    debounced(2);
+    await sleep(40);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func.mock.calls[0]).toEqual([1]);
+  });
+
+  test("calls at least every maxWait during steady calls", async () => {
+    const func = mock(() => {});
+    const debounced = debounce(func, 40, { maxWait: 60 });
+
+    for (let i = 0; i < 10; i++) {
+      debounced();
+      await sleep(15);
+    }
+    expect(func.mock.calls.length).toBeGreaterThanOrEqual(1);
+    debounced.cancel();
+  });
+
+  test("cancel drops and flush runs the scheduled call", async () => {
+    const func = mock((value: number) => value * 2);
+    const debounced = debounce(func, 20);
+
+    debounced(1);
+    expect(debounced.pending()).toBe(true);
+    debounced.cancel();
+    await sleep(40);
+    expect(func).not.toHaveBeenCalled();
+
+    debounced(2);
+    expect(debounced.flush()).toBe(4);
+    expect(debounced.pending()).toBe(false);
+  });
+});
+
+describe("throttle", () => {
+  test("calls on the leading edge and once at the end of the frame", async () => {
+    const func = mock((_value: number) => {});
+    const throttled = throttle(func, 30);
+
+    throttled(1);
+    expect(func).toHaveBeenCalledTimes(1);
+    throttled(2);
+    throttled(3);
+    await sleep(60);
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func.mock.calls[1]).toEqual([3]);
+  });
+
+  test("skips the trailing call when disabled", async () => {
+    const func = mock((_value: number) => {});
+    const throttled = throttle(func, 30, { trailing: false });
+
+    throttled(1);
+    throttled(2);
+    await sleep(60);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("debounceAsync", () => {
+  test("resolves every call with the result of the latest one", async () => {
+    const func = mock(async (query: string) => query.toUpperCase());
+    const search = debounceAsync(func, 20);
+
+    const results = await Promise.all([search("a"), search("ab")]);
+    expect(results).toEqual(["AB", "AB"]);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  test("drops results of calls overtaken by a newer call", async () => {
+    const search = debounceAsync(
+      (query: string) => sleep(query === "slow" ? 50 : 1).then(() => query),
+      0
+    );
+
+    const slow = search("slow");
+    await sleep(10);
+    const fast = search("fast");
+
+    expect(await Promise.all([slow, fast])).toEqual(["fast", "fast"]);
+  });
+
+  test("cancel rejects waiting calls with an AbortError", async () => {
+    const search = debounceAsync(async (query: string) => query, 20);
+
+    const result = search("a");
+    search.cancel();
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("createRateLimiter", () => {
+  test("allows a burst, then refills over the interval", async () => {
+    const limiter = createRateLimiter({ limit: 2, interval: 100 });
+
+    expect(limiter.tryTake()).toBe(true);
+    expect(limiter.tryTake()).toBe(true);
+    expect(limiter.tryTake()).toBe(false);
+
+    await sleep(60);
+    expect(limiter.available).toBe(1);
+    expect(limiter.tryTake()).toBe(true);
+  });
+
+  test("serves waiting calls in order as tokens come back", async () => {
+    const limiter = createRateLimiter({ limit: 1, interval: 30 });
+    const order: number[] = [];
+
+    limiter.tryTake();
+    await Promise.all([
+      limiter.take().then(() => order.push(1)),
+      limiter.take().then(() => order.push(2)),
+      limiter.take().then(() => order.push(3)),
+    ]);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  test("rejects aborted and reset waiters", async () => {
+    const limiter = createRateLimiter({ limit: 1, interval: 1000 });
+    const controller = new AbortController();
+
+    limiter.tryTake();
+    const aborted = limiter.take(1, controller.signal);
+    const reset = limiter.take();
+    controller.abort(new Error("stop"));
+    limiter.reset();
+
+    await expect(aborted).rejects.toThrow("stop");
+    await expect(reset).rejects.toMatchObject({ name: "AbortError" });
+    expect(limiter.available).toBe(1);
+  });
+
+  test("rejects more tokens than the bucket holds", () => {
+    const limiter = createRateLimiter({ limit: 2, interval: 100 });
+    expect(() => limiter.tryTake(3)).toThrow();
+  });
+});
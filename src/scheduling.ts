@@ -0,0 +1,653 @@
+/**
+ * Scheduling helpers: debounce, throttle, their async variants, frame
+ * throttling, rate limiting and idle-time task queues. Nothing assumes
+ * `window`, so they work in workers and outside the browser too.
+ * Path: src/scheduling.ts
+ */
+
+type AnyFunction = (...args: any[]) => any;
+
+export interface DebounceOptions {
+  /** Call on the first call of a burst. Defaults to false. */
+  leading?: boolean;
+  /** Call after the burst, with the latest arguments. Defaults to true. */
+  trailing?: boolean;
+  /** Longest time in ms a call may be delayed, so that steady calls still go through. */
+  maxWait?: number;
+}
+
+export interface ThrottleOptions {
+  /** Call on the first call. Defaults to true. */
+  leading?: boolean;
+  /** Call at the end of the time frame with the latest arguments. Defaults to true. */
+  trailing?: boolean;
+}
+
+export interface Debounced<F extends AnyFunction> {
+  /** Schedule a call. Returns the result of the last call made so far. */
+  (...args: Parameters<F>): ReturnType<F> | undefined;
+  /** Drop the scheduled call. */
+  cancel(): void;
+  /** Make the scheduled call now. Returns its result. */
+  flush(): ReturnType<F> | undefined;
+  /** Whether a call is scheduled. */
+  pending(): boolean;
+}
+
+export interface AsyncDebounced<A extends unknown[], R> {
+  /** Schedule a call. Resolves with the result of the latest call that follows. */
+  (...args: A): Promise<R>;
+  /** Drop the scheduled call. Waiting promises reject with an AbortError. */
+  cancel(): void;
+  /** Make the scheduled call now. */
+  flush(): void;
+  /** Whether a call is scheduled or running. */
+  pending(): boolean;
+}
+
+export interface FrameThrottled<F extends AnyFunction> {
+  (...args: Parameters<F>): void;
+  cancel(): void;
+  flush(): void;
+  pending(): boolean;
+}
+
+export interface RateLimiterOptions {
+  /** Calls allowed per `interval`; also the size of a burst. */
+  limit: number;
+  /** Time frame in ms. */
+  interval: number;
+}
+
+export interface RateLimiter {
+  /** Tokens available now. */
+  readonly available: number;
+  /** Take tokens if there are enough. */
+  tryTake(count?: number): boolean;
+  /** Wait until there are enough tokens and take them. Waiters are served in order. */
+  take(count?: number, signal?: AbortSignal): Promise<void>;
+  /** Wrap a function so that each call waits for a token. */
+  wrap<A extends unknown[], R>(
+    func: (...args: A) => R | Promise<R>
+  ): (...args: A) => Promise<R>;
+  /** Refill the bucket. Waiting calls reject with an AbortError. */
+  reset(): void;
+}
+
+export interface IdleQueueOptions {
+  /** Run tasks after this many ms even if the browser is never idle. */
+  timeout?: number;
+}
+
+export interface IdleTaskOptions {
+  signal?: AbortSignal;
+}
+
+export interface IdleQueue {
+  /** Queue a task. Resolves with what the task returns. */
+  add<R>(
+    task: (deadline: IdleDeadline) => R | Promise<R>,
+    options?: IdleTaskOptions
+  ): Promise<Awaited<R>>;
+  /** Run all queued tasks now. */
+  flush(): void;
+  /** Drop queued tasks. Their promises reject with an AbortError. */
+  clear(): void;
+  readonly size: number;
+}
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+// ========== Timers =======================
+
+/**
+ * @description Wait for a number of milliseconds.
+ * @example await sleep(retryDelay * 2 ** attempt, signal);
+ * @param ms
+ * @param signal Rejects with the signal's reason when aborted.
+ * @returns
+ */
+export function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ========== Debounce and throttle =======================
+
+/**
+ * @description Debounce a function call.
+ * @example
+ * const save = debounce((text: string) => store.set("note", text), 500, { maxWait: 5000 });
+ * textarea.addEventListener("input", () => save(textarea.value));
+ * window.addEventListener("pagehide", () => save.flush());
+ * @param func  Function to be called.
+ * @param wait  Time in milliseconds since the last call.
+ * @param options
+ * @returns
+ */
+export function debounce<F extends AnyFunction>(
+  func: F,
+  wait: number,
+  { leading = false, trailing = true, maxWait }: DebounceOptions = {}
+): Debounced<F> {
+  const maxDelay = maxWait === undefined ? undefined : Math.max(maxWait, wait);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let lastArgs: Parameters<F> | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let result: ReturnType<F> | undefined;
+
+  const invoke = (time: number) => {
+    const args = lastArgs!;
+    lastArgs = undefined;
+    lastInvokeTime = time;
+    result = func(...args);
+    return result;
+  };
+
+  const shouldInvoke = (time: number) => {
+    if (lastCallTime === undefined) return true;
+    const sinceCall = time - lastCallTime;
+    return (
+      sinceCall >= wait ||
+      // The clock went back.
+      sinceCall < 0 ||
+      (maxDelay !== undefined && time - lastInvokeTime >= maxDelay)
+    );
+  };
+
+  const remainingWait = (time: number) => {
+    const waiting = wait - (time - lastCallTime!);
+    return maxDelay === undefined
+      ? waiting
+      : Math.min(waiting, maxDelay - (time - lastInvokeTime));
+  };
+
+  const trailingEdge = (time: number) => {
+    timeoutId = undefined;
+    if (trailing && lastArgs) return invoke(time);
+    lastArgs = undefined;
+    return result;
+  };
+
+  const timerExpired = () => {
+    const time = Date.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+    } else {
+      timeoutId = setTimeout(timerExpired, remainingWait(time));
+    }
+  };
+
+  const leadingEdge = (time: number) => {
+    lastInvokeTime = time;
+    timeoutId = setTimeout(timerExpired, wait);
+    return leading ? invoke(time) : result;
+  };
+
+  const debounced = (...args: Parameters<F>) => {
+    const time = Date.now();
+    const isInvoking = shouldInvoke(time);
+    lastArgs = args;
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timeoutId === undefined) return leadingEdge(time);
+      if (maxDelay !== undefined) {
+        // Calls keep coming; make one now that maxWait is up.
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(timerExpired, wait);
+        return invoke(time);
+      }
+    }
+    if (timeoutId === undefined) timeoutId = setTimeout(timerExpired, wait);
+    return result;
+  };
+
+  return Object.assign(debounced, {
+    cancel() {
+      if (timeoutId !== undefined) clearTimeout(timeoutId);
+      timeoutId = lastArgs = lastCallTime = undefined;
+      lastInvokeTime = 0;
+    },
+    flush() {
+      return timeoutId === undefined ? result : trailingEdge(Date.now());
+    },
+    pending() {
+      return timeoutId !== undefined && trailing && lastArgs !== undefined;
+    },
+  });
+}
+
+/**
+ * @description Call a function at most once per time frame.
+ * @example
+ * const onScroll = throttle(() => updateHeader(), 100);
+ * window.addEventListener("scroll", onScroll, { passive: true });
+ * @param func  Function to be called.
+ * @param wait  Time in milliseconds.
+ * @param options
+ * @returns
+ */
+export function throttle<F extends AnyFunction>(
+  func: F,
+  wait: number,
+  { leading = true, trailing = true }: ThrottleOptions = {}
+): Debounced<F> {
+  return debounce(func, wait, { leading, trailing, maxWait: wait });
+}
+
+// ========== Async variants =======================
+
+type Outcome<R> = { ok: true; value: R } | { ok: false; error: unknown };
+
+interface Waiter<R> {
+  resolve(value: R): void;
+  reject(error: unknown): void;
+}
+
+// Wraps an async function so that callers only ever see the result of the
+// latest call: results of calls overtaken by a newer one are dropped and
+// their callers get the newer result instead.
+function latestOnly<A extends unknown[], R>(
+  func: (...args: A) => R | Promise<R>,
+  schedule: (run: (...args: A) => void) => Debounced<(...args: A) => void>
+): AsyncDebounced<A, R> {
+  let queued: Waiter<R>[] = [];
+  // Waiters of the latest call, while it runs.
+  let current: Waiter<R>[] | undefined;
+  let last: Outcome<R> | undefined;
+  let latest = 0;
+
+  const settle = (waiters: Waiter<R>[], outcome: Outcome<R>) =>
+    waiters.forEach((waiter) =>
+      outcome.ok ? waiter.resolve(outcome.value) : waiter.reject(outcome.error)
+    );
+
+  const run = async (...args: A) => {
+    const id = ++latest;
+    const waiters = queued;
+    queued = [];
+    current = waiters;
+
+    let outcome: Outcome<R>;
+    try {
+      outcome = { ok: true, value: await func(...args) };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+
+    if (id !== latest) {
+      // A newer call started; hand the waiters over to it.
+      if (current) current.push(...waiters);
+      else if (last) settle(waiters, last);
+      return;
+    }
+    current = undefined;
+    last = outcome;
+    settle(waiters, outcome);
+  };
+
+  const scheduled = schedule(run);
+
+  const call = (...args: A) =>
+    new Promise<R>((resolve, reject) => {
+      const waiter = { resolve, reject };
+      queued.push(waiter);
+      scheduled(...args);
+
+      // Calls ignored without trailing calls get the latest result.
+      if (!scheduled.pending() && queued.includes(waiter)) {
+        queued.splice(queued.indexOf(waiter), 1);
+        if (current) current.push(waiter);
+        else if (last) settle([waiter], last);
+      }
+    });
+
+  return Object.assign(call, {
+    cancel() {
+      scheduled.cancel();
+      const waiters = [...queued, ...(current ?? [])];
+      queued = [];
+      // Drop the result of a running call.
+      current?.splice(0);
+      current = undefined;
+      latest++;
+      settle(waiters, { ok: false, error: abortError() });
+    },
+    flush() {
+      scheduled.flush();
+    },
+    pending() {
+      return scheduled.pending() || current !== undefined;
+    },
+  });
+}
+
+/**
+ * @description Debounce an async function. Every call returns a promise
+ * for the result of the next call that is made; results of calls that were
+ * overtaken by a newer one are dropped, so responses never arrive out of
+ * order.
+ * @example
+ * const search = debounceAsync((q: string) => http.get<Result[]>("/search", { query: { q } }), 300);
+ * input.addEventListener("input", async () => render(await search(input.value)));
+ * @param func
+ * @param wait  Time in milliseconds since the last call.
+ * @param options
+ * @returns
+ */
+export function debounceAsync<A extends unknown[], R>(
+  func: (...args: A) => R | Promise<R>,
+  wait: number,
+  options?: DebounceOptions
+): AsyncDebounced<A, Awaited<R>> {
+  return latestOnly<A, Awaited<R>>(
+    func as (...args: A) => Promise<Awaited<R>>,
+    (run) => debounce(run, wait, options)
+  );
+}
+
+/**
+ * @description Throttle an async function. Like `debounceAsync`, results
+ * of overtaken calls are dropped.
+ * @param func
+ * @param wait  Time in milliseconds.
+ * @param options
+ * @returns
+ */
+export function throttleAsync<A extends unknown[], R>(
+  func: (...args: A) => R | Promise<R>,
+  wait: number,
+  options?: ThrottleOptions
+): AsyncDebounced<A, Awaited<R>> {
+  return latestOnly<A, Awaited<R>>(
+    func as (...args: A) => Promise<Awaited<R>>,
+    (run) => throttle(run, wait, options)
+  );
+}
+
+// ========== Frames =======================
+
+/**
+ * @description Call a function at most once per animation frame, with the
+ * latest arguments. Falls back to a 16ms timer where
+ * requestAnimationFrame is missing.
+ * @example
+ * const move = rafThrottle((event: PointerEvent) => drag(event.clientX, event.clientY));
+ * el.addEventListener("pointermove", move);
+ * @param func
+ * @returns
+ */
+export function rafThrottle<F extends AnyFunction>(func: F): FrameThrottled<F> {
+  const hasFrames = typeof requestAnimationFrame === "function";
+  let frameId: ReturnType<typeof setTimeout> | number | undefined;
+  let lastArgs: Parameters<F> | undefined;
+
+  const run = () => {
+    frameId = undefined;
+    const args = lastArgs!;
+    lastArgs = undefined;
+    func(...args);
+  };
+
+  const cancel = () => {
+    if (frameId === undefined) return;
+    if (hasFrames) cancelAnimationFrame(frameId as number);
+    else clearTimeout(frameId);
+    frameId = lastArgs = undefined;
+  };
+
+  const throttled = (...args: Parameters<F>) => {
+    lastArgs = args;
+    if (frameId !== undefined) return;
+    frameId = hasFrames ? requestAnimationFrame(run) : setTimeout(run, 16);
+  };
+
+  return Object.assign(throttled, {
+    cancel,
+    flush() {
+      if (frameId === undefined) return;
+      const args = lastArgs!;
+      cancel();
+      func(...args);
+    },
+    pending() {
+      return frameId !== undefined;
+    },
+  });
+}
+
+// ========== Rate limiting =======================
+
+/**
+ * @description Create a token bucket rate limiter. The bucket holds `limit`
+ * tokens and refills continuously at `limit` per `interval`, so bursts up
+ * to `limit` go through at once and the rate evens out after.
+ * @example
+ * const limiter = createRateLimiter({ limit: 5, interval: 1000 });
+ * const getUser = limiter.wrap((id: string) => http.get(`/users/${id}`));
+ * @param options
+ * @returns
+ */
+export function createRateLimiter({
+  limit,
+  interval,
+}: RateLimiterOptions): RateLimiter {
+  if (!(limit > 0) || !(interval > 0)) {
+    throw new Error("Rate limiter limit and interval must be positive");
+  }
+  const rate = limit / interval;
+
+  let tokens = limit;
+  let refilledAt = Date.now();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const queue: {
+    count: number;
+    resolve(): void;
+    reject(error: unknown): void;
+    signal?: AbortSignal;
+    onAbort(): void;
+  }[] = [];
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(limit, tokens + (now - refilledAt) * rate);
+    refilledAt = now;
+  };
+
+  const checkCount = (count: number) => {
+    if (count > limit) {
+      throw new Error(`Cannot take ${count} tokens from a bucket of ${limit}`);
+    }
+  };
+
+  // Serve waiters in order, then wait for the tokens the next one needs.
+  const drain = () => {
+    timeoutId = undefined;
+    refill();
+    while (queue.length > 0 && tokens >= queue[0].count) {
+      const waiter = queue.shift()!;
+      tokens -= waiter.count;
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      waiter.resolve();
+    }
+    if (queue.length > 0) {
+      timeoutId = setTimeout(
+        drain,
+        Math.ceil((queue[0].count - tokens) / rate)
+      );
+    }
+  };
+
+  const tryTake = (count = 1) => {
+    checkCount(count);
+    refill();
+    // Do not jump the queue.
+    if (queue.length > 0 || tokens < count) return false;
+    tokens -= count;
+    return true;
+  };
+
+  const take = (count = 1, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      checkCount(count);
+      signal?.throwIfAborted();
+      if (tryTake(count)) {
+        resolve();
+        return;
+      }
+
+      const waiter = {
+        count,
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          queue.splice(queue.indexOf(waiter), 1);
+          reject(signal!.reason);
+          if (timeoutId !== undefined) clearTimeout(timeoutId);
+          drain();
+        },
+      };
+      queue.push(waiter);
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      if (timeoutId === undefined) drain();
+    });
+
+  return {
+    get available() {
+      refill();
+      return Math.floor(tokens);
+    },
+    tryTake,
+    take,
+    wrap(func) {
+      return async (...args) => {
+        await take();
+        return func(...args);
+      };
+    },
+    reset() {
+      if (timeoutId !== undefined) clearTimeout(timeoutId);
+      timeoutId = undefined;
+      queue.splice(0).forEach((waiter) => {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+        waiter.reject(abortError());
+      });
+      tokens = limit;
+      refilledAt = Date.now();
+    },
+  };
+}
+
+// ========== Idle tasks =======================
+
+// requestIdleCallback, or a short slice of time after a timer where it is
+// missing (Safari, some workers).
+function requestIdle(
+  callback: (deadline: IdleDeadline) => void,
+  timeout?: number
+): () => void {
+  if (typeof requestIdleCallback === "function") {
+    const id = requestIdleCallback(callback, { timeout });
+    return () => cancelIdleCallback(id);
+  }
+  const id = setTimeout(() => {
+    const start = Date.now();
+    callback({
+      didTimeout: false,
+      timeRemaining: () => Math.max(0, 50 - (Date.now() - start)),
+    });
+  }, 1);
+  return () => clearTimeout(id);
+}
+
+/**
+ * @description Create a queue of tasks that run while the browser is idle,
+ * as many per idle period as fit. Good for analytics, prefetching and
+ * other work that must not delay input or rendering.
+ * @example
+ * const idle = createIdleQueue({ timeout: 2000 });
+ * idle.add(() => prefetch("/next-page"));
+ * @param options
+ * @returns
+ */
+export function createIdleQueue({ timeout }: IdleQueueOptions = {}): IdleQueue {
+  const tasks: {
+    run(deadline: IdleDeadline): void;
+    abort(error: unknown): void;
+  }[] = [];
+  let cancel: (() => void) | undefined;
+
+  const runTasks = (deadline: IdleDeadline) => {
+    cancel = undefined;
+    // After a timeout there is no idle time left; run one task anyway.
+    let ran = false;
+    while (
+      tasks.length > 0 &&
+      (deadline.timeRemaining() > 0 || (deadline.didTimeout && !ran))
+    ) {
+      tasks.shift()!.run(deadline);
+      ran = true;
+    }
+    if (tasks.length > 0) cancel = requestIdle(runTasks, timeout);
+  };
+
+  const flush = () => {
+    cancel?.();
+    cancel = undefined;
+    const deadline = { didTimeout: true, timeRemaining: () => 0 };
+    tasks.splice(0).forEach((task) => task.run(deadline));
+  };
+
+  return {
+    add(task, { signal } = {}) {
+      return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+          const index = tasks.indexOf(entry);
+          if (index >= 0) tasks.splice(index, 1);
+          reject(signal!.reason);
+        };
+        const entry = {
+          run(deadline: IdleDeadline) {
+            signal?.removeEventListener("abort", onAbort);
+            try {
+              Promise.resolve(task(deadline)).then(resolve, reject);
+            } catch (error) {
+              reject(error);
+            }
+          },
+          abort(error: unknown) {
+            signal?.removeEventListener("abort", onAbort);
+            reject(error);
+          },
+        };
+        tasks.push(entry);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (!cancel) cancel = requestIdle(runTasks, timeout);
+      });
+    },
+    flush,
+    clear() {
+      cancel?.();
+      cancel = undefined;
+      tasks.splice(0).forEach((task) => task.abort(abortError()));
+    },
+    get size() {
+      return tasks.length;
+    },
+  };
+}
@@ -0,0 +1,708 @@
+/**
+ * Select helpers: declarative defaults, option population, dependent
+ * selects and a searchable combobox enhancement.
+ * Path: src/select.ts
+ */
+
+import { onClickOutside } from "./dom";
+import { http, type HttpClient, type Query } from "./http";
+
+/** An option: a string is used as both value and label. */
+export type SelectOptionInput =
+  | string
+  | {
+      value: string | number;
+      label?: string;
+      disabled?: boolean;
+      /** Label of the `<optgroup>` to put the option in. */
+      group?: string;
+    };
+
+export interface SetSelectOptionsOptions {
+  /** Text of an empty first option. */
+  placeholder?: string;
+  /**
+   * Keep the current selection when the new options contain it. Defaults to
+   * true. The `value` attribute default is applied otherwise, and when the
+   * only selection is the first option that the browser selects by itself.
+   */
+  keepValue?: boolean;
+}
+
+export interface LoadSelectOptionsOptions<T> extends SetSelectOptionsOptions {
+  client?: HttpClient;
+  query?: Query;
+  signal?: AbortSignal;
+  /** Convert each item of the response to an option. */
+  map?: (item: T) => SelectOptionInput;
+}
+
+export interface DependentSelectsOptions {
+  client?: HttpClient;
+  /**
+   * Load the options of a dependent select. Defaults to fetching its
+   * `data-options-url`.
+   */
+  load?: (
+    select: HTMLSelectElement,
+    parentValue: string,
+    signal: AbortSignal
+  ) => Promise<SelectOptionInput[]>;
+  /**
+   * Called when the options of a dependent select fail to load. The select
+   * is left empty and disabled, and the selects below it keep their state.
+   */
+  onError?: (error: unknown, select: HTMLSelectElement) => void;
+}
+
+export interface EnhanceSelectOptions {
+  /** Placeholder of the search input. */
+  placeholder?: string;
+  /** Shown when no option matches. Defaults to "No results". */
+  noResultsText?: string;
+  /** Decide whether an option matches the search text. Defaults to a case- and accent-insensitive substring match. */
+  filter?: (option: HTMLOptionElement, search: string) => boolean;
+}
+
+export interface EnhancedSelect {
+  select: HTMLSelectElement;
+  input: HTMLInputElement;
+  listbox: HTMLElement;
+  readonly isOpen: boolean;
+  open(): void;
+  close(): void;
+  /** Rebuild the list from the select's options. Done automatically when they change. */
+  refresh(): void;
+  /** Remove the enhancement and show the native select again. */
+  destroy(): void;
+}
+
+let nextId = 0;
+
+// ========== Defaults =======================
+
+// `value="a"`, or for multiple selects `value="a,b"` or `value='["a","b"]'`.
+function defaultValues(select: HTMLSelectElement) {
+  const value = select.getAttribute("value");
+  if (value === null) return undefined;
+  if (!select.multiple) return [value];
+  if (value.trim().startsWith("[")) {
+    try {
+      return (JSON.parse(value) as unknown[]).map(String);
+    } catch {
+      // Not JSON; fall through to a comma-separated list.
+    }
+  }
+  return value.split(",").map((item) => item.trim());
+}
+
+/**
+ * @description Select the options named by a select's `value` attribute,
+ * as server-side templates often render it. Options inside `<optgroup>`s
+ * count; multiple selects take a comma-separated list or a JSON array.
+ * @param select
+ * @returns Whether a default was applied.
+ */
+export function applySelectDefault(select: HTMLSelectElement) {
+  const values = defaultValues(select);
+  if (!values) return false;
+
+  const options = Array.from(select.options);
+  if (!options.some((option) => values.includes(option.value))) return false;
+  options.forEach((option) => {
+    option.selected = values.includes(option.value);
+  });
+  return true;
+}
+
+/** Set default options for each select element on the page.
+ * This is useful for setting default values for select elements that are populated
+ * from server-side templates in vanilla JavaScript. (Unlike in many frameworks)
+ * Selects added later, options loaded later and changes to the `value`
+ * attribute are handled too, until the returned function is called.
+ * @param root Element to watch. Defaults to the document.
+ * @returns A function that stops watching.
+ */
+export function setDefaultSelectOptions(root: ParentNode = document) {
+  const selects = (node: ParentNode) =>
+    node instanceof HTMLSelectElement
+      ? [node]
+      : Array.from(node.querySelectorAll("select"));
+
+  // Selects whose default was applied. They are left alone afterwards, so
+  // that new options do not undo the user's choice, unless their `value`
+  // attribute changes.
+  const applied = new WeakSet<HTMLSelectElement>();
+  const apply = (select: HTMLSelectElement) => {
+    if (applySelectDefault(select)) applied.add(select);
+  };
+
+  selects(root).forEach(apply);
+
+  const observer = new MutationObserver((mutations) => {
+    const pending = new Set<HTMLSelectElement>();
+    mutations.forEach((mutation) => {
+      if (mutation.type === "attributes") {
+        // The filter also matches `value` attributes of inputs and options.
+        if (mutation.target instanceof HTMLSelectElement) {
+          applied.delete(mutation.target);
+          pending.add(mutation.target);
+        }
+        return;
+      }
+      // New options of a select, or new selects.
+      const select = (mutation.target as Element).closest?.("select");
+      if (select) pending.add(select);
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof Element) {
+          selects(node).forEach((added) => pending.add(added));
+        }
+      });
+    });
+    pending.forEach((select) => {
+      if (!applied.has(select)) apply(select);
+    });
+  });
+  observer.observe(root === document ? document.documentElement : root, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["value"],
+  });
+  return () => observer.disconnect();
+}
+
+// ========== Population =======================
+
+function createOption(value: string, label: string) {
+  const option = document.createElement("option");
+  option.value = value;
+  option.textContent = label;
+  return option;
+}
+
+/**
+ * @description Replace the options of a select. Options with a `group` are
+ * put in `<optgroup>`s, in order of first appearance.
+ * @example
+ * setSelectOptions(select, [
+ *   { value: "ug", label: "Uganda", group: "Africa" },
+ *   { value: "fr", label: "France", group: "Europe" },
+ * ], { placeholder: "Choose a country" });
+ * @param select
+ * @param options
+ * @param settings
+ */
+export function setSelectOptions(
+  select: HTMLSelectElement,
+  options: SelectOptionInput[],
+  { placeholder, keepValue = true }: SetSelectOptionsOptions = {}
+) {
+  // A single-line select shows its first option until one is chosen; that
+  // implicit selection is not worth keeping over the default.
+  const implicit =
+    !select.multiple &&
+    select.size <= 1 &&
+    select.selectedIndex === 0 &&
+    !select.options[0].defaultSelected;
+  const previous = implicit
+    ? []
+    : Array.from(select.selectedOptions).map((o) => o.value);
+  const fragment = document.createDocumentFragment();
+  const groups = new Map<string, HTMLOptGroupElement>();
+
+  if (placeholder !== undefined) {
+    fragment.append(createOption("", placeholder));
+  }
+  options.forEach((input) => {
+    const { value, label, disabled, group } =
+      typeof input === "string"
+        ? { value: input, label: undefined, disabled: false, group: undefined }
+        : input;
+    const option = createOption(String(value), label ?? String(value));
+    option.disabled = !!disabled;
+
+    if (group === undefined) {
+      fragment.append(option);
+      return;
+    }
+    if (!groups.has(group)) {
+      const optgroup = document.createElement("optgroup");
+      optgroup.label = group;
+      groups.set(group, optgroup);
+      fragment.append(optgroup);
+    }
+    groups.get(group)!.append(option);
+  });
+
+  select.replaceChildren(fragment);
+
+  const kept =
+    keepValue &&
+    previous.filter((value) =>
+      Array.from(select.options).some((option) => option.value === value)
+    );
+  if (kept && kept.length > 0) {
+    Array.from(select.options).forEach((option) => {
+      option.selected = kept.includes(option.value);
+    });
+  } else {
+    applySelectDefault(select);
+  }
+}
+
+/**
+ * @description Load the options of a select from a JSON endpoint that
+ * returns an array. The select is disabled and marked `aria-busy` while
+ * loading.
+ * @example
+ * await loadSelectOptions<{ id: number; name: string }>(select, "/api/cities", {
+ *   query: { region: "central" },
+ *   map: (city) => ({ value: city.id, label: city.name }),
+ * });
+ * @param select
+ * @param url
+ * @param options
+ */
+export async function loadSelectOptions<T = SelectOptionInput>(
+  select: HTMLSelectElement,
+  url: string,
+  {
+    client = http,
+    query,
+    signal,
+    map,
+    ...settings
+  }: LoadSelectOptionsOptions<T> = {}
+) {
+  const disabled = select.disabled;
+  select.disabled = true;
+  select.setAttribute("aria-busy", "true");
+  try {
+    const items = await client.get<T[]>(url, { query, signal });
+    setSelectOptions(
+      select,
+      map ? items.map(map) : (items as SelectOptionInput[]),
+      settings
+    );
+  } finally {
+    select.disabled = disabled;
+    select.removeAttribute("aria-busy");
+  }
+}
+
+// ========== Dependent selects =======================
+
+/**
+ * @description Wire up cascading selects declared with data attributes.
+ * A select with `data-depends-on="country"` is cleared and disabled until
+ * the select named "country" (in the same form, else anywhere in `root`)
+ * has a value; its options are then loaded from `data-options-url`, where
+ * `{country}` is replaced by the value (or appended as a query parameter).
+ * `data-placeholder` sets the text of the empty option. Chains such as
+ * country → region → city clear every level below a change.
+ * @example
+ * // <select name="country">...</select>
+ * // <select name="region" data-depends-on="country"
+ * //         data-options-url="/api/countries/{country}/regions"
+ * //         data-placeholder="Region"></select>
+ * const destroy = initDependentSelects();
+ * @param root
+ * @param options
+ * @returns A function that removes the listeners.
+ */
+export function initDependentSelects(
+  root: ParentNode = document,
+  { client = http, load, onError }: DependentSelectsOptions = {}
+) {
+  const cache = new Map<string, Promise<SelectOptionInput[]>>();
+  const cleanups: (() => void)[] = [];
+
+  const loadFromUrl = (
+    select: HTMLSelectElement,
+    parentName: string,
+    parentValue: string,
+    signal: AbortSignal
+  ) => {
+    const template = select.dataset.optionsUrl;
+    if (!template) {
+      throw new Error(`Select "${select.name}" has no data-options-url`);
+    }
+    const placeholder = `{${parentName}}`;
+    const url = template.includes(placeholder)
+      ? template.split(placeholder).join(encodeURIComponent(parentValue))
+      : template;
+    const query = template.includes(placeholder)
+      ? undefined
+      : { [parentName]: parentValue };
+
+    const key = `${url}?${JSON.stringify(query)}`;
+    if (!cache.has(key)) {
+      const request = client.get<SelectOptionInput[]>(url, { query, signal });
+      cache.set(key, request);
+      request.catch(() => cache.delete(key));
+    }
+    return cache.get(key)!;
+  };
+
+  root
+    .querySelectorAll<HTMLSelectElement>("select[data-depends-on]")
+    .forEach((select) => {
+      const parentName = select.dataset.dependsOn!;
+      const scope: ParentNode = select.form ?? root;
+      const parent = scope.querySelector<HTMLSelectElement>(
+        `select[name="${CSS.escape(parentName)}"]`
+      );
+      if (!parent) {
+        throw new Error(
+          `Select "${select.name}" depends on missing select "${parentName}"`
+        );
+      }
+
+      const placeholder = select.dataset.placeholder ?? "";
+      let controller: AbortController | undefined;
+
+      const update = async (initial: boolean) => {
+        controller?.abort();
+        const value = parent.value;
+
+        if (!value) {
+          setSelectOptions(select, [], { placeholder, keepValue: false });
+          select.disabled = true;
+          // A load aborted by clearing the parent leaves it set.
+          select.removeAttribute("aria-busy");
+        } else {
+          controller = new AbortController();
+          const { signal } = controller;
+          select.disabled = true;
+          select.setAttribute("aria-busy", "true");
+          try {
+            const options = await (load
+              ? load(select, value, signal)
+              : loadFromUrl(select, parentName, value, signal));
+            if (signal.aborted) return;
+            // On the first load keep the server-rendered selection.
+            setSelectOptions(select, options, {
+              placeholder,
+              keepValue: initial,
+            });
+            select.disabled = false;
+          } catch (error) {
+            if (signal.aborted) return;
+            setSelectOptions(select, [], { placeholder, keepValue: false });
+            onError?.(error, select);
+            return;
+          } finally {
+            if (!signal.aborted) select.removeAttribute("aria-busy");
+          }
+        }
+        // Let selects that depend on this one update too.
+        select.dispatchEvent(new Event("change", { bubbles: true }));
+      };
+
+      const onChange = () => update(false);
+      parent.addEventListener("change", onChange);
+      cleanups.push(() => {
+        controller?.abort();
+        parent.removeEventListener("change", onChange);
+      });
+
+      // Server-rendered options are kept when the parent already has a value.
+      if (!parent.value || select.options.length === 0) update(true);
+    });
+
+  return () => cleanups.forEach((cleanup) => cleanup());
+}
+
+// ========== Searchable select =======================
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * @description Turn a select into a searchable combobox following the
+ * WAI-ARIA combobox pattern. The native select stays in the form, hidden,
+ * and is kept in sync in both directions.
+ * Typing filters the options; ArrowUp/ArrowDown, Home/End, PageUp/PageDown
+ * move through them; Enter selects; Escape closes or clears the search.
+ * Multiple selects toggle options and stay open.
+ * @example
+ * const country = enhanceSelect(document.querySelector("#country")!, {
+ *   placeholder: "Search countries",
+ * });
+ * @param select
+ * @param options
+ * @returns
+ */
+export function enhanceSelect(
+  select: HTMLSelectElement,
+  {
+    placeholder = "",
+    noResultsText = "No results",
+    filter = (option, search) =>
+      normalize(option.label).includes(normalize(search)),
+  }: EnhanceSelectOptions = {}
+): EnhancedSelect {
+  const id = `select-${++nextId}`;
+
+  const wrapper = document.createElement("div");
+  wrapper.className = "select-search";
+
+  const input = document.createElement("input");
+  input.type = "text";
+  input.className = "select-search-input";
+  input.placeholder = placeholder;
+  input.autocomplete = "off";
+  input.setAttribute("role", "combobox");
+  input.setAttribute("aria-autocomplete", "list");
+  input.setAttribute("aria-expanded", "false");
+  input.setAttribute("aria-controls", `${id}-listbox`);
+
+  const listbox = document.createElement("ul");
+  listbox.id = `${id}-listbox`;
+  listbox.className = "select-search-listbox";
+  listbox.setAttribute("role", "listbox");
+  listbox.hidden = true;
+  if (select.multiple) listbox.setAttribute("aria-multiselectable", "true");
+
+  // Move the accessible name of the select to the input.
+  const labels = Array.from(select.labels ?? []);
+  if (labels.length > 0) {
+    labels.forEach((label) => {
+      if (!label.id) label.id = `${id}-label-${labels.indexOf(label)}`;
+    });
+    input.setAttribute("aria-labelledby", labels.map((l) => l.id).join(" "));
+    listbox.setAttribute("aria-labelledby", labels.map((l) => l.id).join(" "));
+  } else if (select.hasAttribute("aria-label")) {
+    input.setAttribute("aria-label", select.getAttribute("aria-label")!);
+  }
+
+  wrapper.append(input, listbox);
+  select.after(wrapper);
+  const { hidden } = select;
+  const tabIndex = select.getAttribute("tabindex");
+  select.hidden = true;
+  select.tabIndex = -1;
+
+  let isOpen = false;
+  let active = -1;
+  let search = "";
+  let items: { option: HTMLOptionElement; element: HTMLElement }[] = [];
+
+  const summary = () => {
+    const selected = Array.from(select.selectedOptions).filter(
+      (option) => option.value !== ""
+    );
+    if (!select.multiple) return selected[0]?.label ?? "";
+    return selected.map((option) => option.label).join(", ");
+  };
+
+  const setActive = (index: number) => {
+    items[active]?.element.classList.remove("active");
+    active = index;
+    const item = items[active];
+    if (!item) {
+      input.removeAttribute("aria-activedescendant");
+      return;
+    }
+    item.element.classList.add("active");
+    input.setAttribute("aria-activedescendant", item.element.id);
+    item.element.scrollIntoView?.({ block: "nearest" });
+  };
+
+  const render = () => {
+    listbox.replaceChildren();
+    items = [];
+    let group: HTMLOptGroupElement | null = null;
+
+    Array.from(select.options).forEach((option, index) => {
+      if (option.value === "" && !select.multiple) return;
+      if (search && !filter(option, search)) return;
+
+      const optgroup =
+        option.parentElement instanceof HTMLOptGroupElement
+          ? option.parentElement
+          : null;
+      if (optgroup && optgroup !== group) {
+        const heading = document.createElement("li");
+        heading.className = "select-search-group";
+        heading.setAttribute("role", "presentation");
+        heading.textContent = optgroup.label;
+        listbox.append(heading);
+      }
+      group = optgroup;
+
+      const element = document.createElement("li");
+      element.id = `${id}-option-${index}`;
+      element.className = "select-search-option";
+      element.setAttribute("role", "option");
+      element.setAttribute("aria-selected", String(option.selected));
+      if (option.disabled || optgroup?.disabled) {
+        element.setAttribute("aria-disabled", "true");
+      }
+      element.textContent = option.label;
+      listbox.append(element);
+      items.push({ option, element });
+    });
+
+    if (items.length === 0) {
+      const empty = document.createElement("li");
+      empty.className = "select-search-empty";
+      empty.setAttribute("role", "presentation");
+      empty.textContent = noResultsText;
+      listbox.append(empty);
+    }
+
+    const selected = items.findIndex(({ option }) => option.selected);
+    active = -1;
+    setActive(search ? 0 : Math.max(0, selected));
+  };
+
+  const open = () => {
+    if (isOpen || select.disabled) return;
+    isOpen = true;
+    render();
+    listbox.hidden = false;
+    input.setAttribute("aria-expanded", "true");
+    wrapper.classList.add("open");
+  };
+
+  const close = () => {
+    if (!isOpen) return;
+    isOpen = false;
+    search = "";
+    listbox.hidden = true;
+    input.setAttribute("aria-expanded", "false");
+    input.removeAttribute("aria-activedescendant");
+    wrapper.classList.remove("open");
+    input.value = summary();
+  };
+
+  const choose = (index: number) => {
+    const item = items[index];
+    if (!item || item.element.hasAttribute("aria-disabled")) return;
+
+    if (select.multiple) {
+      item.option.selected = !item.option.selected;
+      item.element.setAttribute("aria-selected", String(item.option.selected));
+    } else {
+      item.option.selected = true;
+    }
+    select.dispatchEvent(new Event("input", { bubbles: true }));
+    select.dispatchEvent(new Event("change", { bubbles: true }));
+
+    if (!select.multiple) close();
+  };
+
+  const onInput = () => {
+    search = input.value;
+    if (!isOpen) open();
+    else render();
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    const last = items.length - 1;
+    const page = 10;
+    const moves: Record<string, () => number> = {
+      ArrowDown: () => Math.min(last, active + 1),
+      ArrowUp: () => Math.max(0, active - 1),
+      Home: () => 0,
+      End: () => last,
+      PageDown: () => Math.min(last, active + page),
+      PageUp: () => Math.max(0, active - page),
+    };
+
+    if (event.key in moves) {
+      // Home and End move the caret while the list is closed.
+      if (!isOpen && (event.key === "Home" || event.key === "End")) return;
+      event.preventDefault();
+      if (!isOpen) {
+        open();
+        if (event.key === "ArrowUp") setActive(last);
+        return;
+      }
+      setActive(moves[event.key]());
+    } else if (event.key === "Enter") {
+      if (!isOpen) return;
+      event.preventDefault();
+      choose(active);
+    } else if (event.key === "Escape") {
+      if (isOpen) {
+        event.preventDefault();
+        close();
+      } else if (input.value) {
+        input.value = "";
+      }
+    } else if (event.key === "Tab") {
+      close();
+    }
+  };
+
+  const onListboxPointerDown = (event: PointerEvent) => {
+    // Keep focus in the input.
+    event.preventDefault();
+    const element = (event.target as Element).closest("[role=option]");
+    const index = items.findIndex((item) => item.element === element);
+    if (index >= 0) {
+      setActive(index);
+      choose(index);
+    }
+  };
+
+  const onInputClick = () => (isOpen ? close() : open());
+
+  const onSelectChange = () => {
+    if (isOpen) render();
+    else input.value = summary();
+  };
+
+  // Options replaced by setSelectOptions, loads and dependent selects.
+  const observer = new MutationObserver(() => {
+    input.disabled = select.disabled;
+    if (isOpen) render();
+    input.value = isOpen ? search : summary();
+  });
+  observer.observe(select, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["disabled"],
+  });
+
+  input.addEventListener("input", onInput);
+  input.addEventListener("keydown", onKeyDown);
+  input.addEventListener("click", onInputClick);
+  listbox.addEventListener("pointerdown", onListboxPointerDown);
+  select.addEventListener("change", onSelectChange);
+  const removeClickOutside = onClickOutside(wrapper, close);
+
+  input.disabled = select.disabled;
+  input.value = summary();
+
+  return {
+    select,
+    input,
+    listbox,
+    get isOpen() {
+      return isOpen;
+    },
+    open,
+    close,
+    refresh() {
+      if (isOpen) render();
+      input.value = isOpen ? search : summary();
+    },
+    destroy() {
+      observer.disconnect();
+      removeClickOutside();
+      select.removeEventListener("change", onSelectChange);
+      wrapper.remove();
+      select.hidden = hidden;
+      if (tabIndex === null) select.removeAttribute("tabindex");
+      else select.setAttribute("tabindex", tabIndex);
+    },
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Local test server for the chunk protocol of `createUploadManager`.
+ * Runs on Node or Bun and is not part of the browser bundle.
+ * Path: src/server/upload-server.ts
+ *
+ * Usage:
+ *   bun src/server/upload-server.ts --port 8787 --dir ./uploads
+ *   bun src/server/upload-server.ts --failure-rate 0.2   # simulate a flaky network
+ */
+
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { basename, join, resolve } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { fileURLToPath } from "node:url";
+
+export interface UploadServerOptions {
+  /** Directory where chunks and assembled files are stored. */
+  dir?: string;
+  /** Path prefix of the upload endpoint. Defaults to "/uploads". */
+  basePath?: string;
+  /** Largest chunk size the server accepts. Defaults to 16 MiB. */
+  maxChunkSize?: number;
+  /** Largest file size the server accepts. Defaults to 10 GiB. */
+  maxFileSize?: number;
+  /** Fraction (0 to 1) of chunk requests answered with a 503, for testing retries. */
+  failureRate?: number;
+  /** Value of Access-Control-Allow-Origin. Defaults to "*". */
+  corsOrigin?: string;
+}
+
+interface UploadMeta {
+  uploadId: string;
+  name: string;
+  size: number;
+  type: string;
+  chunkSize: number;
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage) {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  return JSON.parse(text || "{}");
+}
+
+/**
+ * @description Create an HTTP server implementing the upload chunk protocol.
+ * Call `listen()` on the result to start it.
+ * @param options
+ * @returns A Node `http.Server`.
+ */
+export function createUploadServer({
+  dir = "./uploads",
+  basePath = "/uploads",
+  maxChunkSize = 16 * 1024 * 1024,
+  maxFileSize = 10 * 1024 * 1024 * 1024,
+  failureRate = 0,
+  corsOrigin = "*",
+}: UploadServerOptions = {}) {
+  const root = resolve(dir);
+  const base = basePath.replace(/\/+$/, "");
+
+  // Upload IDs are UUIDs; anything else could escape the upload directory.
+  const uploadDir = (uploadId: string) => {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) return undefined;
+    return join(root, uploadId);
+  };
+
+  const readMeta = async (uploadId: string) => {
+    const path = uploadDir(uploadId);
+    if (!path) return undefined;
+    try {
+      return JSON.parse(
+        await readFile(join(path, "meta.json"), "utf8")
+      ) as UploadMeta;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const receivedChunks = async (uploadId: string) => {
+    const files = await readdir(uploadDir(uploadId)!);
+    return files
+      .filter((file) => file.endsWith(".part"))
+      .map((file) => Number(file.slice(0, -5)))
+      .sort((a, b) => a - b);
+  };
+
+  const chunkCount = (meta: UploadMeta) =>
+    Math.max(1, Math.ceil(meta.size / meta.chunkSize));
+
+  const expectedChunkSize = (meta: UploadMeta, index: number) =>
+    Math.min(meta.chunkSize, meta.size - index * meta.chunkSize);
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader("Access-Control-Allow-Origin", corsOrigin);
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "*");
+    if (req.method === "OPTIONS") return send(res, 204);
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== base && !pathname.startsWith(`${base}/`)) {
+      return send(res, 404, { error: "Not found" });
+    }
+    const [uploadId, action] = pathname
+      .slice(base.length)
+      .split("/")
+      .filter(Boolean);
+
+    // Create an upload.
+    if (req.method === "POST" && !uploadId) {
+      const { name, size, type = "", chunkSize } = await readJson(req);
+      if (typeof name !== "string" || !Number.isInteger(size) || size < 0) {
+        return send(res, 400, { error: "name and size are required" });
+      }
+      if (size > maxFileSize) {
+        return send(res, 413, { error: "File too large" });
+      }
+
+      const meta: UploadMeta = {
+        uploadId: randomUUID(),
+        name: basename(name),
+        size,
+        type,
+        chunkSize: Math.min(
+          maxChunkSize,
+          Number.isInteger(chunkSize) && chunkSize > 0
+            ? chunkSize
+            : maxChunkSize
+        ),
+      };
+      await mkdir(uploadDir(meta.uploadId)!, { recursive: true });
+      await writeFile(
+        join(uploadDir(meta.uploadId)!, "meta.json"),
+        JSON.stringify(meta)
+      );
+      return send(res, 201, {
+        uploadId: meta.uploadId,
+        chunkSize: meta.chunkSize,
+      });
+    }
+
+    const meta = uploadId ? await readMeta(uploadId) : undefined;
+    if (!meta) return send(res, 404, { error: "Unknown upload" });
+    const path = uploadDir(meta.uploadId)!;
+
+    // Upload status, used to resume.
+    if (req.method === "GET" && !action) {
+      return send(res, 200, {
+        uploadId: meta.uploadId,
+        size: meta.size,
+        chunkSize: meta.chunkSize,
+        received: await receivedChunks(meta.uploadId),
+      });
+    }
+
+    // Store a chunk.
+    if (req.method === "PUT" && action !== undefined) {
+      const index = Number(action);
+      if (!Number.isInteger(index) || index < 0 || index >= chunkCount(meta)) {
+        return send(res, 400, { error: "Invalid chunk index" });
+      }
+      if (Math.random() < failureRate) {
+        req.resume();
+        return send(res, 503, { error: "Simulated failure" });
+      }
+
+      // Write to a temporary file so that a broken request never leaves a
+      // partial chunk that looks complete.
+      const temp = join(path, `${index}.tmp-${randomUUID()}`);
+      try {
+        await pipeline(req, createWriteStream(temp));
+      } catch (error) {
+        await rm(temp, { force: true });
+        throw error;
+      }
+      const { size } = await stat(temp);
+      if (size !== expectedChunkSize(meta, index)) {
+        await rm(temp, { force: true });
+        return send(res, 400, { error: "Unexpected chunk size" });
+      }
+      await rename(temp, join(path, `${index}.part`));
+      return send(res, 204);
+    }
+
+    // Assemble the file.
+    if (req.method === "POST" && action === "complete") {
+      const received = await receivedChunks(meta.uploadId);
+      const missing = Array.from(
+        { length: chunkCount(meta) },
+        (_, i) => i
+      ).filter((i) => !received.includes(i));
+      if (missing.length > 0) {
+        return send(res, 409, { error: "Missing chunks", missing });
+      }
+
+      const target = join(root, `${meta.uploadId}-${meta.name}`);
+      const output = createWriteStream(target);
+      for (const index of received) {
+        for await (const data of createReadStream(
+          join(path, `${index}.part`)
+        )) {
+          if (!output.write(data)) await once(output, "drain");
+        }
+      }
+      await new Promise<void>((done, fail) =>
+        output.end((error?: Error | null) => (error ? fail(error) : done()))
+      );
+      await rm(path, { recursive: true, force: true });
+
+      return send(res, 200, {
+        uploadId: meta.uploadId,
+        name: meta.name,
+        size: meta.size,
+        type: meta.type,
+        path: target,
+      });
+    }
+
+    send(res, 405, { error: "Method not allowed" });
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      if (!res.headersSent) send(res, 500, { error: "Internal server error" });
+      else res.destroy();
+    });
+  });
+}
+
+// ========== CLI =======================
+
+if (
+  process.argv[1] &&
+  resolve(process.argv[1]) === fileURLToPath(import.meta.url)
+) {
+  const arg = (name: string) => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+  };
+
+  const port = Number(arg("port") ?? 8787);
+  const dir = arg("dir") ?? "./uploads";
+  const server = createUploadServer({
+    dir,
+    failureRate: Number(arg("failure-rate") ?? 0),
+  });
+  server.listen(port, () => {
+    console.log(`Upload server on http://localhost:${port}/uploads (${dir})`);
+  });
+}
@@ -0,0 +1,156 @@
+import { describe, expect, mock, test } from "bun:test";
+import { sleep } from "./scheduling";
+import {
+  createStore,
+  memoryBackend,
+  type StorageBackend,
+  type StoreChange,
+} from "./storage";
+
+describe("createStore", () => {
+  test("reads back JSON values and removes them", async () => {
+    const store = createStore<{ user: { name: string }; count: number }>({
+      backend: "memory",
+    });
+
+    await store.set("user", { name: "Ada" });
+    await store.set("count", 3);
+    expect(await store.get("user")).toEqual({ name: "Ada" });
+    expect(await store.get("count")).toBe(3);
+    expect((await store.keys()).sort()).toEqual(["count", "user"]);
+
+    await store.remove("user");
+    expect(await store.has("user")).toBe(false);
+    expect(await store.get("user")).toBeUndefined();
+  });
+
+  test("keeps namespaces sharing a backend apart", async () => {
+    const backend = memoryBackend();
+    const a = createStore<Record<string, number>>({ backend, namespace: "a" });
+    const b = createStore<Record<string, number>>({ backend, namespace: "b" });
+    await backend.set("other", "not a store entry");
+
+    await a.set("x", 1);
+    await b.set("x", 2);
+    expect(await a.get("x")).toBe(1);
+    expect(await b.get("x")).toBe(2);
+
+    await a.clear();
+    expect(await a.keys()).toEqual([]);
+    expect(await b.keys()).toEqual(["x"]);
+    expect(await backend.get("other")).toBe("not a store entry");
+  });
+
+  test("ignores values not written by a store", async () => {
+    const backend = memoryBackend();
+    const store = createStore<Record<string, unknown>>({ backend });
+    await backend.set("broken", "{not json");
+    await backend.set("plain", '"text"');
+
+    expect(await store.get("broken")).toBeUndefined();
+    expect(await store.get("plain")).toBeUndefined();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  test("expires values after their time to live", async () => {
+    const backend = memoryBackend();
+    const store = createStore<Record<string, string>>({ backend, ttl: 20 });
+
+    await store.set("short", "a");
+    await store.set("long", "b", { ttl: 1000 });
+    expect(await store.get("short")).toBe("a");
+
+    await sleep(40);
+    expect(await store.keys()).toEqual(["long"]);
+    expect(await store.get("short")).toBeUndefined();
+    // Reading an expired entry removes it.
+    expect(await backend.keys()).toEqual(["long"]);
+  });
+
+  test("prune removes expired entries", async () => {
+    const backend = memoryBackend();
+    const store = createStore<Record<string, string>>({ backend });
+
+    await store.set("a", "a", { ttl: 10 });
+    await store.set("b", "b");
+    await sleep(20);
+    await store.prune();
+    expect(await backend.keys()).toEqual(["b"]);
+  });
+
+  test("reports changes", async () => {
+    const store = createStore<Record<string, number>>({ backend: "memory" });
+    const listener = mock((_change: StoreChange<Record<string, number>>) => {});
+    store.on("change", listener);
+
+    await store.set("x", 1);
+    await store.remove("x");
+    expect(listener.mock.calls).toEqual([
+      [{ key: "x", value: 1, remote: false }],
+      [{ key: "x", value: undefined, remote: false }],
+    ]);
+
+    store.destroy();
+    await store.set("x", 2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createStore eviction", () => {
+  // A memory backend that holds at most `limit` keys.
+  const limitedBackend = (limit: number): StorageBackend => {
+    const backend = memoryBackend();
+    return {
+      ...backend,
+      async set(key, value) {
+        const keys = await backend.keys();
+        if (!keys.includes(key) && keys.length >= limit) {
+          throw new DOMException("Full", "QuotaExceededError");
+        }
+        await backend.set(key, value);
+      },
+    };
+  };
+
+  test("evicts expired and then the oldest entries", async () => {
+    const store = createStore<Record<string, number>>({
+      backend: limitedBackend(2),
+    });
+    const evicted: string[] = [];
+    store.on("evict", ({ key }) => evicted.push(key));
+
+    await store.set("old", 1);
+    await sleep(5);
+    await store.set("expiring", 2, { ttl: 5 });
+    await sleep(10);
+    await store.set("new", 3);
+    await sleep(5);
+    await store.set("newer", 4);
+
+    expect(evicted).toEqual(["expiring", "old"]);
+    expect((await store.keys()).sort()).toEqual(["new", "newer"]);
+  });
+
+  test("throws the quota error when eviction is disabled", async () => {
+    const store = createStore<Record<string, number>>({
+      backend: limitedBackend(1),
+      evict: false,
+    });
+
+    await store.set("a", 1);
+    await expect(store.set("b", 2)).rejects.toMatchObject({
+      name: "QuotaExceededError",
+    });
+    expect(await store.get("a")).toBe(1);
+  });
+
+  test("throws the quota error when nothing is left to evict", async () => {
+    const store = createStore<Record<string, string>>({
+      backend: limitedBackend(0),
+    });
+
+    await expect(store.set("a", "a")).rejects.toMatchObject({
+      name: "QuotaExceededError",
+    });
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Key-value storage with JSON values, expiry, namespaces and cross-tab
+ * change events over localStorage, sessionStorage, IndexedDB, cookies or
+ * memory.
+ * Path: src/storage.ts
+ */
+
+import {
+  getAllCookies,
+  getCookie,
+  removeCookie,
+  setCookie,
+  type CookieOptions,
+} from "./cookies";
+import { createEmitter, type Emitter } from "./events";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** Where a store keeps its data. Values are strings; the store handles JSON. */
+export interface StorageBackend {
+  /** Identifies the backend in cross-tab messages. */
+  readonly name: string;
+  /**
+   * Web Storage area of the backend. Changes from other tabs then arrive as
+   * `storage` events.
+   */
+  readonly area?: Storage;
+  /** Whether other tabs see the same data. Changes are then broadcast. */
+  readonly shared?: boolean;
+  get(key: string): MaybePromise<string | null | undefined>;
+  set(key: string, value: string): MaybePromise<void>;
+  remove(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+}
+
+export interface StoreChange<T, K extends keyof T = keyof T> {
+  key: K;
+  /** The new value, or undefined if the key was removed or expired. */
+  value?: T[K];
+  /** Whether the change was made in another tab. */
+  remote: boolean;
+}
+
+export interface StoreEvents<T> {
+  change: StoreChange<T>;
+  /** A key was removed to make room after a quota error. */
+  evict: { key: keyof T & string };
+}
+
+export interface StoreOptions {
+  /** Defaults to "local". */
+  backend?:
+    | "local"
+    | "session"
+    | "indexeddb"
+    | "cookie"
+    | "memory"
+    | StorageBackend;
+  /** Prefix of every key, so that stores sharing a backend do not collide. */
+  namespace?: string;
+  /** Default time to live in ms. Defaults to no expiry. */
+  ttl?: number;
+  /** Remove the oldest entries when the quota is exceeded. Defaults to true. */
+  evict?: boolean;
+}
+
+export interface SetOptions {
+  /** Time to live in ms. Overrides the default of the store. */
+  ttl?: number;
+}
+
+export interface Store<T extends object> {
+  readonly backend: StorageBackend;
+  readonly namespace: string;
+  /** @returns The value, or undefined if it is missing or expired. */
+  get<K extends keyof T & string>(key: K): Promise<T[K] | undefined>;
+  /**
+   * Store a value as JSON. When the quota is exceeded, expired and then the
+   * oldest entries of the namespace are evicted until it fits.
+   */
+  set<K extends keyof T & string>(
+    key: K,
+    value: T[K],
+    options?: SetOptions
+  ): Promise<void>;
+  remove(key: keyof T & string): Promise<void>;
+  has(key: keyof T & string): Promise<boolean>;
+  /** @returns The keys of the namespace, without the prefix. */
+  keys(): Promise<(keyof T & string)[]>;
+  /** Remove every key of the namespace. */
+  clear(): Promise<void>;
+  /** Remove expired entries. Expired entries are also removed when read. */
+  prune(): Promise<void>;
+  on: Emitter<StoreEvents<T>>["on"];
+  /** Stop listening for changes from other tabs and remove all listeners. */
+  destroy(): void;
+}
+
+// What is stored: the value, when it expires and when it was written.
+interface Envelope {
+  v: unknown;
+  e?: number;
+  t: number;
+}
+
+function parseEnvelope(text: string | null | undefined) {
+  if (text === null || text === undefined) return undefined;
+  try {
+    const envelope = JSON.parse(text);
+    return envelope && typeof envelope === "object" && "v" in envelope
+      ? (envelope as Envelope)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const isExpired = (envelope: Envelope) =>
+  envelope.e !== undefined && envelope.e <= Date.now();
+
+function isQuotaError(error: unknown) {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
+
+// ========== Backends =======================
+
+/**
+ * @description Backend over a Web Storage area.
+ * @param storage localStorage or sessionStorage.
+ * @returns
+ */
+export function webStorageBackend(storage: Storage): StorageBackend {
+  return {
+    name:
+      typeof sessionStorage !== "undefined" && storage === sessionStorage
+        ? "session"
+        : "local",
+    area: storage,
+    get: (key) => storage.getItem(key),
+    set: (key, value) => storage.setItem(key, value),
+    remove: (key) => storage.removeItem(key),
+    keys: () =>
+      Array.from({ length: storage.length }, (_, i) => storage.key(i)!),
+  };
+}
+
+/**
+ * @description In-memory backend, e.g. for tests or when storage is blocked.
+ * Data is lost on reload and not shared between tabs.
+ * @returns
+ */
+export function memoryBackend(): StorageBackend {
+  const data = new Map<string, string>();
+  return {
+    name: "memory",
+    get: (key) => data.get(key),
+    set: (key, value) => void data.set(key, value),
+    remove: (key) => void data.delete(key),
+    keys: () => [...data.keys()],
+  };
+}
+
+/**
+ * @description Backend over cookies. Suited to small values that the
+ * server must read too; browsers limit cookies to about 4 KB each.
+ * @param options Attributes of the cookies. Path defaults to "/".
+ * @returns
+ */
+export function cookieBackend(options: CookieOptions = {}): StorageBackend {
+  const attributes = { path: "/", ...options };
+  return {
+    name: "cookie",
+    shared: true,
+    get: (key) => getCookie(key),
+    set: (key, value) => setCookie(key, value, attributes),
+    remove: (key) => removeCookie(key, attributes),
+    keys: () => Object.keys(getAllCookies()),
+  };
+}
+
+function idbRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * @description Backend over IndexedDB, for large values. The database is
+ * opened on first use.
+ * @param options Database and object store names.
+ * @returns
+ */
+export function indexedDBBackend({
+  database = "jsutils-storage",
+  store = "entries",
+}: { database?: string; store?: string } = {}): StorageBackend {
+  let opening: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    opening ??= (async () => {
+      const request = indexedDB.open(database, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(store);
+      const db = await idbRequest(request);
+      // Let other tabs upgrade the database.
+      db.onversionchange = () => {
+        db.close();
+        opening = undefined;
+      };
+      return db;
+    })();
+    opening.catch(() => (opening = undefined));
+    return opening;
+  };
+
+  const read = async <R>(run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await open();
+    return idbRequest(run(db.transaction(store).objectStore(store)));
+  };
+
+  // Writes resolve when the transaction commits, so that quota errors,
+  // which abort the transaction, are reported.
+  const write = async (run: (store: IDBObjectStore) => void) => {
+    const db = await open();
+    const transaction = db.transaction(store, "readwrite");
+    run(transaction.objectStore(store));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = transaction.onerror = () =>
+        reject(transaction.error);
+    });
+  };
+
+  return {
+    name: `indexeddb:${database}/${store}`,
+    shared: true,
+    get: (key) => read((objects) => objects.get(key)),
+    set: (key, value) => write((objects) => objects.put(value, key)),
+    remove: (key) => write((objects) => objects.delete(key)),
+    keys: async () =>
+      (await read((objects) => objects.getAllKeys())).map(String),
+  };
+}
+
+function resolveBackend(backend: StoreOptions["backend"]) {
+  switch (backend) {
+    case undefined:
+    case "local":
+      return webStorageBackend(localStorage);
+    case "session":
+      return webStorageBackend(sessionStorage);
+    case "indexeddb":
+      return indexedDBBackend();
+    case "cookie":
+      return cookieBackend();
+    case "memory":
+      return memoryBackend();
+    default:
+      return backend;
+  }
+}
+
+// ========== Store =======================
+
+/**
+ * @description Create a typed key-value store.
+ * Values are saved as JSON with an optional expiry. Changes made through
+ * the store are reported to listeners in this tab and, for shared
+ * backends, in other tabs through `storage` events or a BroadcastChannel.
+ * @example
+ * const prefs = createStore<{ theme: "light" | "dark"; pageSize: number }>({
+ *   namespace: "prefs",
+ * });
+ * await prefs.set("theme", "dark");
+ * prefs.on("change", ({ key, value }) => console.log(key, value));
+ *
+ * const drafts = createStore<Record<string, string>>({
+ *   backend: "indexeddb",
+ *   namespace: "drafts",
+ *   ttl: 7 * 24 * 60 * 60 * 1000,
+ * });
+ * @param options
+ * @returns
+ */
+export function createStore<T extends object = Record<string, any>>({
+  backend: backendOption,
+  namespace = "",
+  ttl: defaultTtl,
+  evict = true,
+}: StoreOptions = {}): Store<T> {
+  type Key = keyof T & string;
+
+  const backend = resolveBackend(backendOption);
+  const prefix = namespace ? `${namespace}:` : "";
+  const events = createEmitter<StoreEvents<T>>();
+
+  const toKey = (key: string) => `${prefix}${key}`;
+  const fromKey = (stored: string) =>
+    stored.startsWith(prefix) ? (stored.slice(prefix.length) as Key) : null;
+
+  const channel =
+    backend.shared && typeof BroadcastChannel !== "undefined"
+      ? new BroadcastChannel(`jsutils-storage:${backend.name}:${namespace}`)
+      : undefined;
+
+  // The value of a stored envelope, or undefined if it is missing or expired.
+  const liveValue = (stored: string | null | undefined) => {
+    const envelope = parseEnvelope(stored);
+    return envelope && !isExpired(envelope)
+      ? (envelope.v as T[Key])
+      : undefined;
+  };
+
+  const notify = (key: Key, stored: string | undefined) => {
+    events.emit("change", { key, value: liveValue(stored), remote: false });
+    channel?.postMessage({ key, stored });
+  };
+
+  channel?.addEventListener("message", (event: MessageEvent) => {
+    const { key, stored } = event.data as { key: Key; stored?: string };
+    events.emit("change", { key, value: liveValue(stored), remote: true });
+  });
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea !== backend.area) return;
+    // clear() on the storage area.
+    if (event.key === null) return;
+    const key = fromKey(event.key);
+    if (key === null) return;
+    events.emit("change", {
+      key,
+      value: liveValue(event.newValue),
+      remote: true,
+    });
+  };
+  if (backend.area) window.addEventListener("storage", onStorage);
+
+  // Entries written by a store. Other keys of the backend are left alone.
+  const entries = async () => {
+    const result: { key: Key; envelope: Envelope }[] = [];
+    for (const stored of await backend.keys()) {
+      const key = fromKey(stored);
+      if (key === null) continue;
+      const envelope = parseEnvelope(await backend.get(stored));
+      if (envelope) result.push({ key, envelope });
+    }
+    return result;
+  };
+
+  const remove = async (key: Key) => {
+    await backend.remove(toKey(key));
+    notify(key, undefined);
+  };
+
+  const prune = async () => {
+    for (const { key, envelope } of await entries()) {
+      if (isExpired(envelope)) await remove(key);
+    }
+  };
+
+  // Free space for `key`: expired entries first, then the oldest.
+  const evictOne = async (key: Key) => {
+    const candidates = (await entries())
+      .filter((entry) => entry.key !== key)
+      .sort(
+        (a, b) =>
+          Number(!isExpired(a.envelope)) - Number(!isExpired(b.envelope)) ||
+          a.envelope.t - b.envelope.t
+      );
+    if (candidates.length === 0) return false;
+
+    const [victim] = candidates;
+    await remove(victim.key);
+    events.emit("evict", { key: victim.key });
+    return true;
+  };
+
+  const get = async <K extends Key>(key: K) => {
+    const envelope = parseEnvelope(await backend.get(toKey(key)));
+    if (!envelope) return undefined;
+    if (isExpired(envelope)) {
+      await remove(key);
+      return undefined;
+    }
+    return envelope.v as T[K];
+  };
+
+  return {
+    backend,
+    namespace,
+    get,
+    async set(key, value, { ttl = defaultTtl } = {}) {
+      const envelope: Envelope = { v: value, t: Date.now() };
+      if (ttl !== undefined) envelope.e = envelope.t + ttl;
+      const stored = JSON.stringify(envelope);
+
+      while (true) {
+        try {
+          await backend.set(toKey(key), stored);
+          break;
+        } catch (error) {
+          if (!evict || !isQuotaError(error) || !(await evictOne(key))) {
+            throw error;
+          }
+        }
+      }
+      notify(key, stored);
+    },
+    remove,
+    async has(key) {
+      return (await get(key)) !== undefined;
+    },
+    async keys() {
+      return (await entries())
+        .filter(({ envelope }) => !isExpired(envelope))
+        .map(({ key }) => key);
+    },
+    async clear() {
+      for (const { key } of await entries()) await remove(key);
+    },
+    prune,
+    on: events.on,
+    destroy() {
+      channel?.close();
+      if (backend.area) window.removeEventListener("storage", onStorage);
+      events.clear();
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import { describe, expect, test } from "bun:test";
+import {
+  readEventStream,
+  readFrames,
+  readLines,
+  readNDJSON,
+  type EventStreamState,
+} from "./streaming";
+
+const encoder = new TextEncoder();
+
+// A byte stream that delivers the given chunks one by one.
+function streamOf(...chunks: (string | Uint8Array | number[])[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === "string"
+            ? encoder.encode(chunk)
+            : Uint8Array.from(chunk)
+        );
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterator: AsyncIterable<T>) {
+  const values: T[] = [];
+  for await (const value of iterator) values.push(value);
+  return values;
+}
+
+describe("readLines", () => {
+  test("splits on every kind of line break across chunks", async () => {
+    const lines = await collect(
+      readLines(streamOf("one\r", "\ntwo\nthr", "ee\rfour\r\n\nlast"))
+    );
+    expect(lines).toEqual(["one", "two", "three", "four", "", "last"]);
+  });
+
+  test("decodes characters split across chunks", async () => {
+    const bytes = encoder.encode("héllo wörld\n");
+    const lines = await collect(
+      readLines(
+        streamOf(bytes.subarray(0, 2), bytes.subarray(2, 9), bytes.subarray(9))
+      )
+    );
+    expect(lines).toEqual(["héllo wörld"]);
+  });
+
+  test("reads responses and rejects failed ones", async () => {
+    expect(await collect(readLines(new Response("a\nb\n")))).toEqual([
+      "a",
+      "b",
+    ]);
+    await expect(
+      collect(readLines(new Response("gone", { status: 410 })))
+    ).rejects.toMatchObject({ status: 410 });
+  });
+
+  test("cancels the stream when the consumer stops early", async () => {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode("line\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const line of readLines(stream)) {
+      expect(line).toBe("line");
+      break;
+    }
+    expect(cancelled).toBe(true);
+  });
+});
+
+describe("readNDJSON", () => {
+  test("parses one value per line and skips blank lines", async () => {
+    const rows = await collect(
+      readNDJSON(streamOf('{"id":1}\n\n{"id"', ":2}\r\n  \n[3]"))
+    );
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }, [3]]);
+  });
+
+  test("reports the line of invalid JSON", async () => {
+    await expect(
+      collect(readNDJSON(streamOf("1\n\n{oops}\n")))
+    ).rejects.toThrow("Invalid JSON on line 3");
+  });
+
+  test("skips invalid lines when asked to", async () => {
+    const rows = await collect(
+      readNDJSON(streamOf("1\n{oops}\n2\n"), { skipInvalid: true })
+    );
+    expect(rows).toEqual([1, 2]);
+  });
+});
+
+describe("readFrames", () => {
+  test("reads frames spanning and sharing chunks", async () => {
+    const frames = await collect(
+      readFrames(streamOf([0, 0], [0, 2, 1, 2, 0, 0, 0], [0, 0, 0, 0, 1, 9]))
+    );
+    expect(frames.map((frame) => [...frame])).toEqual([[1, 2], [], [9]]);
+  });
+
+  test("reads little-endian and short headers", async () => {
+    const little = await collect(
+      readFrames(streamOf([2, 0, 7, 8]), { headerSize: 2, littleEndian: true })
+    );
+    expect(little.map((frame) => [...frame])).toEqual([[7, 8]]);
+
+    const short = await collect(
+      readFrames(streamOf([1, 5, 1, 6]), { headerSize: 1 })
+    );
+    expect(short.map((frame) => [...frame])).toEqual([[5], [6]]);
+  });
+
+  test("grows the buffer for large frames", async () => {
+    const payload = Uint8Array.from({ length: 5000 }, (_, i) => i % 256);
+    const header = [0, 0, 0x13, 0x88];
+    const [frame] = await collect(
+      readFrames(
+        streamOf(header, payload.subarray(0, 3000), payload.subarray(3000))
+      )
+    );
+    expect(frame).toEqual(payload);
+  });
+
+  test("rejects oversized and truncated frames", async () => {
+    await expect(
+      collect(readFrames(streamOf([0, 0, 1, 0]), { maxFrameSize: 100 }))
+    ).rejects.toThrow("exceeds the limit");
+    await expect(
+      collect(readFrames(streamOf([0, 0, 0, 3, 1])))
+    ).rejects.toThrow("middle of a frame");
+  });
+});
+
+describe("readEventStream", () => {
+  test("dispatches events on blank lines", async () => {
+    const events = await collect(
+      readEventStream(
+        streamOf(
+          ": comment\n",
+          "data: first\n\n",
+          "event: update\ndata: line 1\ndata:line 2\nid: 7\n\n",
+          "data\n\n",
+          "data: unfinished\n"
+        )
+      )
+    );
+    expect(events).toEqual([
+      { type: "message", data: "first", id: "" },
+      { type: "update", data: "line 1\nline 2", id: "7" },
+      { type: "message", data: "", id: "7" },
+    ]);
+  });
+
+  test("ignores events without data and unknown fields", async () => {
+    const events = await collect(
+      readEventStream(streamOf("event: ping\n\nfoo: bar\ndata: x\n\n"))
+    );
+    expect(events).toEqual([{ type: "message", data: "x", id: "" }]);
+  });
+
+  test("updates the state with the id and retry fields", async () => {
+    const state: EventStreamState = { lastEventId: "3" };
+    const events = await collect(
+      readEventStream(
+        streamOf(
+          "retry: 5000\nretry: soon\ndata: a\n\nid: bad\0id\ndata: b\n\nid: 9\n"
+        ),
+        state
+      )
+    );
+    expect(events.map((event) => event.id)).toEqual(["3", "3"]);
+    expect(state).toEqual({ lastEventId: "9", retry: 5000 });
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Streaming HTTP responses.
+ * Path: src/streaming.ts
+ */
+
+import {
+  http,
+  isHttpError,
+  type HttpClient,
+  type RequestOptions,
+} from "./http";
+import { sleep } from "./scheduling";
+
+export interface StreamingFetchOptions
+  extends Omit<RequestOptions, "onDownloadProgress"> {
+  /**
+   * Called as body chunks arrive with the bytes read so far and the total
+   * size, when the server reports it.
+   */
+  onProgress?: (loaded: number, total?: number) => void;
+  /** Client to send the request with. Defaults to `http`. */
+  client?: HttpClient;
+}
+
+/**
+ *  Streaming fetch: https://stackoverflow.com/questions/53005361/how-to-stream-fetch-response-body
+ * This is useful for streaming large files. The response body is a ReadableStream.
+ * The server must support streaming e.g Node.js with res.write() or res.pipe() or golang with http.ResponseWriter.
+ * Chunks are read as the body is consumed, and the status and headers of the
+ * original response are kept.
+ * Sent with the HTTP client, so its base URL, headers and interceptors
+ * apply. Unlike the client, it does not retry or reject error statuses
+ * unless `retry` or `throwHttpErrors` say so.
+ * @param url URL to fetch.
+ * @param options Request options and an optional onProgress callback.
+ * @returns
+ */
+export function streamingFetch(
+  url: string,
+  { onProgress, client = http, ...options }: StreamingFetchOptions = {}
+) {
+  return client.request(url, {
+    retry: false,
+    throwHttpErrors: false,
+    ...options,
+    onDownloadProgress: onProgress,
+  });
+}
+
+// ========== Parsers =======================
+
+/** A response, or its body, to parse. */
+export type StreamSource = Response | ReadableStream<Uint8Array>;
+
+function bodyOf(source: StreamSource) {
+  if (!(source instanceof Response)) return source;
+  if (!source.ok) {
+    throw Object.assign(new Error(`Request failed. Status: ${source.status}`), {
+      status: source.status,
+    });
+  }
+  return source.body;
+}
+
+// Yield the chunks of a stream. The stream is cancelled if the consumer
+// stops early, e.g. with `break` in a `for await` loop.
+async function* readChunks(source: StreamSource) {
+  const body = bodyOf(source);
+  if (!body) return;
+
+  const reader = body.getReader();
+  let done = false;
+  try {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+// Split text into lines on "\r\n", "\n" or "\r". Text arrives in pieces, so
+// the unterminated tail is kept for the next call, and a "\r" ending one
+// piece swallows a "\n" starting the next.
+function createLineSplitter() {
+  let buffer = "";
+  let skipLF = false;
+
+  return (text: string, end = false) => {
+    if (skipLF && text) {
+      if (text[0] === "\n") text = text.slice(1);
+      skipLF = false;
+    }
+    buffer += text;
+
+    const lines: string[] = [];
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== "\n" && char !== "\r") continue;
+      lines.push(buffer.slice(start, i));
+      if (char === "\r") {
+        if (buffer[i + 1] === "\n") i++;
+        else if (i === buffer.length - 1) skipLF = true;
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+
+    if (end && buffer) {
+      lines.push(buffer);
+      buffer = "";
+    }
+    return lines;
+  };
+}
+
+/**
+ * @description Read a response as lines of text.
+ * Lines end with "\n", "\r\n" or "\r", which are not included. Multi-byte
+ * characters split across chunks are decoded correctly. A final line
+ * without a line break is yielded too.
+ * @example
+ * for await (const line of readLines(await streamingFetch("/logs/tail"))) {
+ *   console.log(line);
+ * }
+ * @param source A response or a byte stream. Rejects if the response is not ok.
+ * @param encoding Text encoding. Defaults to "utf-8".
+ * @returns An async iterator of lines.
+ */
+export async function* readLines(source: StreamSource, encoding = "utf-8") {
+  const decoder = new TextDecoder(encoding);
+  const split = createLineSplitter();
+
+  for await (const chunk of readChunks(source)) {
+    yield* split(decoder.decode(chunk, { stream: true }));
+  }
+  yield* split(decoder.decode(), true);
+}
+
+export interface ReadNDJSONOptions {
+  /** Skip lines that are not valid JSON instead of throwing. */
+  skipInvalid?: boolean;
+}
+
+/**
+ * @description Read a newline-delimited JSON (NDJSON, JSON Lines) response.
+ * Blank lines are ignored.
+ * @example
+ * for await (const row of readNDJSON<Row>(await streamingFetch("/rows"))) {
+ *   table.append(row);
+ * }
+ * @param source A response or a byte stream. Rejects if the response is not ok.
+ * @param options
+ * @returns An async iterator of parsed values.
+ */
+export async function* readNDJSON<T = unknown>(
+  source: StreamSource,
+  { skipInvalid = false }: ReadNDJSONOptions = {}
+) {
+  let lineNumber = 0;
+  for await (const line of readLines(source)) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let value: T;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      if (skipInvalid) continue;
+      throw new Error(`Invalid JSON on line ${lineNumber}`, { cause: error });
+    }
+    yield value;
+  }
+}
+
+export interface ReadFramesOptions {
+  /** Size of the length prefix in bytes. Defaults to 4. */
+  headerSize?: 1 | 2 | 4;
+  /** Read the length prefix as little-endian. Defaults to big-endian. */
+  littleEndian?: boolean;
+  /** Largest frame accepted, to guard against corrupt input. Defaults to 16 MiB. */
+  maxFrameSize?: number;
+}
+
+/**
+ * @description Read a stream of length-prefixed binary frames.
+ * Each frame is an unsigned integer holding the payload size, followed by
+ * the payload. Frames may span chunks, and a chunk may hold many frames.
+ * @example
+ * for await (const frame of readFrames(await streamingFetch("/telemetry"))) {
+ *   handle(decode(frame));
+ * }
+ * @param source A response or a byte stream. Rejects if the response is not ok.
+ * @param options
+ * @returns An async iterator of frame payloads.
+ */
+export async function* readFrames(
+  source: StreamSource,
+  {
+    headerSize = 4,
+    littleEndian = false,
+    maxFrameSize = 16 * 1024 * 1024,
+  }: ReadFramesOptions = {}
+) {
+  let buffer = new Uint8Array(1024);
+  let length = 0;
+
+  const frameSize = (offset: number) => {
+    const view = new DataView(buffer.buffer, offset, headerSize);
+    if (headerSize === 1) return view.getUint8(0);
+    if (headerSize === 2) return view.getUint16(0, littleEndian);
+    return view.getUint32(0, littleEndian);
+  };
+
+  for await (const chunk of readChunks(source)) {
+    if (length + chunk.byteLength > buffer.byteLength) {
+      let capacity = buffer.byteLength;
+      while (capacity < length + chunk.byteLength) capacity *= 2;
+      const grown = new Uint8Array(capacity);
+      grown.set(buffer.subarray(0, length));
+      buffer = grown;
+    }
+    buffer.set(chunk, length);
+    length += chunk.byteLength;
+
+    let offset = 0;
+    while (length - offset >= headerSize) {
+      const size = frameSize(offset);
+      if (size > maxFrameSize) {
+        throw new Error(
+          `Frame of ${size} bytes exceeds the limit of ${maxFrameSize} bytes`
+        );
+      }
+      if (length - offset < headerSize + size) break;
+      yield buffer.slice(offset + headerSize, offset + headerSize + size);
+      offset += headerSize + size;
+    }
+    // Keep the incomplete frame at the start of the buffer.
+    buffer.copyWithin(0, offset, length);
+    length -= offset;
+  }
+
+  if (length > 0) throw new Error("The stream ended in the middle of a frame");
+}
+
+// ========== Server-Sent Events =======================
+
+export interface ServerSentEvent {
+  /** Event type from the `event` field. Defaults to "message". */
+  type: string;
+  /** Lines of the `data` fields, joined with "\n". */
+  data: string;
+  /** Last event ID seen on the stream, including earlier events. */
+  id: string;
+}
+
+/** Parser state that carries over between connections. */
+export interface EventStreamState {
+  /** Last event ID, sent as `Last-Event-ID` when reconnecting. */
+  lastEventId: string;
+  /** Reconnection delay in ms, set by the `retry` field. */
+  retry?: number;
+}
+
+/**
+ * @description Parse a `text/event-stream` response.
+ * Follows the HTML event stream format: comments are skipped, `data` lines
+ * are joined and an event is dispatched on a blank line. An event left
+ * unfinished when the stream ends is dropped.
+ * @param source A response or a byte stream. Rejects if the response is not ok.
+ * @param state Updated with the `id` and `retry` fields as they are read.
+ * @returns An async iterator of events.
+ */
+export async function* readEventStream(
+  source: StreamSource,
+  state: EventStreamState = { lastEventId: "" }
+): AsyncGenerator<ServerSentEvent> {
+  let type = "";
+  let data = "";
+
+  for await (const line of readLines(source)) {
+    if (line === "") {
+      if (data) {
+        yield {
+          type: type || "message",
+          data: data.slice(0, -1),
+          id: state.lastEventId,
+        };
+      }
+      type = data = "";
+      continue;
+    }
+    if (line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const field = colon < 0 ? line : line.slice(0, colon);
+    let value = colon < 0 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        type = value;
+        break;
+      case "data":
+        data += `${value}\n`;
+        break;
+      case "id":
+        if (!value.includes("\0")) state.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) state.retry = Number(value);
+        break;
+    }
+  }
+}
+
+export interface FetchEventSourceOptions
+  extends Omit<StreamingFetchOptions, "signal" | "retry" | "throwHttpErrors"> {
+  signal?: AbortSignal;
+  /** Event ID to resume from on the first request. */
+  lastEventId?: string;
+  /** Reconnection delay in ms until the server sets one. Defaults to 3000. */
+  retry?: number;
+  /** Reconnections in a row without a successful response before giving up. Defaults to Infinity. */
+  maxRetries?: number;
+  /** Called for every successful connection. */
+  onOpen?: (response: Response) => void;
+  /** Called when the connection fails or breaks, before reconnecting. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * @description Subscribe to Server-Sent Events with fetch.
+ * Unlike `EventSource`, requests can carry headers and other fetch options.
+ * Reconnects after network errors and when the stream ends, sending
+ * `Last-Event-ID` so that the server can resume. Rejects without
+ * reconnecting on HTTP errors and when the response is not an event
+ * stream; a 204 response ends the iteration. Stop with `break` or `signal`.
+ * @example
+ * for await (const event of fetchEventSource("/jobs/42/progress")) {
+ *   if (event.type === "done") break;
+ *   bar.value = JSON.parse(event.data).progress;
+ * }
+ * @param url
+ * @param options
+ * @returns An async iterator of events.
+ */
+export async function* fetchEventSource(
+  url: string,
+  {
+    signal,
+    lastEventId = "",
+    retry = 3000,
+    maxRetries = Infinity,
+    onOpen,
+    onError,
+    ...options
+  }: FetchEventSourceOptions = {}
+) {
+  const state: EventStreamState = { lastEventId, retry };
+  let failures = 0;
+
+  while (true) {
+    signal?.throwIfAborted();
+
+    const headers = new Headers(options.headers);
+    headers.set("Accept", "text/event-stream");
+    if (state.lastEventId) headers.set("Last-Event-ID", state.lastEventId);
+
+    let response: Response | undefined;
+    try {
+      response = await streamingFetch(url, {
+        cache: "no-store",
+        ...options,
+        headers,
+        signal,
+        throwHttpErrors: true,
+      });
+    } catch (error) {
+      // Error statuses fail the connection for good.
+      if (signal?.aborted || (isHttpError(error) && error.code === "http")) {
+        throw error;
+      }
+      if (++failures > maxRetries) throw error;
+      onError?.(error);
+    }
+
+    if (response) {
+      if (response.status === 204) return;
+      const type = response.headers.get("Content-Type") ?? "";
+      if (!type.startsWith("text/event-stream")) {
+        await response.body?.cancel();
+        throw new Error(`Expected an event stream but got "${type}"`);
+      }
+
+      failures = 0;
+      onOpen?.(response);
+      try {
+        yield* readEventStream(response, state);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        onError?.(error);
+      }
+    }
+
+    await sleep(state.retry!, signal);
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Export tables and row arrays to CSV, TSV, JSON and XLSX.
+ * Path: src/table-export.ts
+ */
+
+import { saveBlob } from "./download";
+
+export type ExportFormat = "csv" | "tsv" | "json" | "xlsx";
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+export type ExportSource =
+  | HTMLTableElement
+  | CellValue[][]
+  | Record<string, CellValue>[];
+
+export interface CellContext {
+  /** Row index in the exported data (0 is the first data row). */
+  row: number;
+  /** Column index in the source. */
+  column: number;
+  /** Header of the column, or "" when there is no header. */
+  header: string;
+  /** Source cell, for tables. */
+  cell?: HTMLTableCellElement;
+}
+
+export interface TableDataOptions {
+  /**
+   * Whether the first row is a header.
+   * "auto" (default) uses the last `thead` row, or a first row made only of
+   * `th` cells, for tables; the keys for arrays of objects; and no header for
+   * arrays of arrays.
+   */
+  header?: boolean | "auto";
+  /** Columns to export, by index or header text. Defaults to all. */
+  columns?: (number | string)[];
+  /** Convert a cell before it is written. */
+  formatCell?: (value: CellValue, context: CellContext) => CellValue;
+}
+
+export interface TableExportOptions extends TableDataOptions {
+  format: ExportFormat;
+  /** Defaults to "table.<format>". */
+  filename?: string;
+  /** Worksheet name for XLSX. Defaults to "Sheet1". */
+  sheetName?: string;
+  /** Prefix CSV and TSV with a UTF-8 byte order mark (for Excel). */
+  bom?: boolean;
+}
+
+export interface TableData {
+  header: string[] | null;
+  rows: CellValue[][];
+}
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  tsv: "text/tab-separated-values;charset=utf-8",
+  json: "application/json",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Cells of a row, with undefined for the extra columns of a colspan.
+function rowCells(row: HTMLTableRowElement) {
+  const cells: (HTMLTableCellElement | undefined)[] = [];
+  row.querySelectorAll<HTMLTableCellElement>("th, td").forEach((cell) => {
+    cells.push(cell);
+    for (let i = 1; i < cell.colSpan; i++) cells.push(undefined);
+  });
+  return cells;
+}
+
+function cellValueText(value: CellValue) {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * @description Read the header and rows to export from a table or array.
+ * Rows hidden by pagination or filtering are included.
+ * @param source Table element, array of row arrays or array of objects.
+ * @param options Header detection, column selection and cell formatting.
+ * @returns
+ */
+export function getTableData(
+  source: ExportSource,
+  { header = "auto", columns, formatCell }: TableDataOptions = {}
+): TableData {
+  let head: string[] | null = null;
+  let body: CellValue[][];
+  let cells: (HTMLTableCellElement | undefined)[][] | undefined;
+
+  if (source instanceof HTMLTableElement) {
+    const headRows = source.querySelectorAll<HTMLTableRowElement>("thead tr");
+    const bodyRows = Array.from(
+      source.querySelectorAll<HTMLTableRowElement>("tr")
+    ).filter(
+      (row) => row.closest("thead") === null && row.closest("table") === source
+    );
+    let headRow: HTMLTableRowElement | undefined =
+      header === false ? undefined : headRows[headRows.length - 1];
+
+    if (!headRow && header !== false) {
+      const first = bodyRows[0];
+      const onlyTh =
+        first &&
+        first.querySelectorAll("td").length === 0 &&
+        first.querySelectorAll("th").length > 0;
+      if (header === true || onlyTh) headRow = bodyRows.shift();
+    }
+
+    head = headRow
+      ? rowCells(headRow).map((cell) => cell?.textContent?.trim() ?? "")
+      : null;
+    cells = bodyRows.map(rowCells);
+    body = cells.map((row) =>
+      row.map((cell) => cell?.textContent?.trim() ?? "")
+    );
+  } else if (source.length > 0 && !Array.isArray(source[0])) {
+    const objects = source as Record<string, CellValue>[];
+    const keys = [...new Set(objects.flatMap((row) => Object.keys(row)))];
+    head = header === false ? null : keys;
+    body = objects.map((row) => keys.map((key) => row[key]));
+  } else {
+    body = (source as CellValue[][]).map((row) => [...row]);
+    if (header === true && body.length > 0) {
+      head = body.shift()!.map(cellValueText);
+    }
+  }
+
+  const width = body.reduce(
+    (max, row) => Math.max(max, row.length),
+    head?.length ?? 0
+  );
+  let indexes = Array.from({ length: width }, (_, i) => i);
+
+  if (columns) {
+    indexes = columns.map((column) => {
+      if (typeof column === "number") return column;
+      const index = head?.indexOf(column) ?? -1;
+      if (index < 0) throw new Error(`Unknown column: ${column}`);
+      return index;
+    });
+  }
+
+  return {
+    header: head && indexes.map((i) => head![i] ?? ""),
+    rows: body.map((row, r) =>
+      indexes.map((column) => {
+        const value = row[column];
+        if (!formatCell) return value;
+        return formatCell(value, {
+          row: r,
+          column,
+          header: head?.[column] ?? "",
+          cell: cells?.[r]?.[column],
+        });
+      })
+    ),
+  };
+}
+
+// ========== Text formats =======================
+
+/**
+ * @description Serialize rows as CSV (RFC 4180): fields containing commas,
+ * quotes or line breaks are quoted, quotes are doubled and records end with
+ * CRLF.
+ * @param data
+ * @returns
+ */
+export function toCSV({ header, rows }: TableData) {
+  const quote = (value: CellValue) => {
+    const text = cellValueText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return (header ? [header, ...rows] : rows)
+    .map((row) => row.map(quote).join(",") + "\r\n")
+    .join("");
+}
+
+/**
+ * @description Serialize rows as TSV. TSV has no quoting, so tabs and line
+ * breaks inside values are replaced by spaces.
+ * @param data
+ * @returns
+ */
+export function toTSV({ header, rows }: TableData) {
+  const clean = (value: CellValue) =>
+    cellValueText(value).replace(/[\t\r\n]+/g, " ");
+
+  return (header ? [header, ...rows] : rows)
+    .map((row) => row.map(clean).join("\t") + "\n")
+    .join("");
+}
+
+/**
+ * @description Serialize rows as JSON: an array of objects keyed by header,
+ * or an array of arrays when there is no header.
+ * @param data
+ * @returns
+ */
+export function toJSON({ header, rows }: TableData) {
+  if (!header) return JSON.stringify(rows, null, 2);
+
+  const objects = rows.map((row) =>
+    Object.fromEntries(header.map((key, i) => [key, row[i] ?? null]))
+  );
+  return JSON.stringify(objects, null, 2);
+}
+
+// ========== XLSX =======================
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Build a zip archive with stored (uncompressed) entries.
+function createZip(files: { name: string; data: string }[]) {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const time =
+    (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date =
+    ((now.getFullYear() - 1980) << 9) |
+    ((now.getMonth() + 1) << 5) |
+    now.getDate();
+
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.data);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true); // version needed
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], {
+    type: mimeTypes.xlsx,
+  });
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 => A, 25 => Z, 26 => AA
+function columnName(index: number) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxCell(value: CellValue, ref: string) {
+  if (typeof value === "number" && isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = escapeXml(cellValueText(value));
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+/**
+ * @description Build a minimal XLSX workbook with one worksheet.
+ * Numbers are written as numbers and dates as ISO text. Strings stay text,
+ * so that IDs such as "007" keep their digits; convert table cells with
+ * `formatCell` to export them as numbers.
+ * @param data
+ * @param sheetName Worksheet name.
+ * @returns
+ */
+export function toXLSX({ header, rows }: TableData, sheetName = "Sheet1") {
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const main = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+  const rel =
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  const pkg = "http://schemas.openxmlformats.org/package/2006";
+  const name = escapeXml(sheetName.replace(/[\[\]:*?/\\]/g, "").slice(0, 31));
+
+  const sheetRows = (header ? [header, ...rows] : rows)
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`))
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data:
+        xml +
+        `<Types xmlns="${pkg}/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        xml +
+        `<Relationships xmlns="${pkg}/relationships">` +
+        `<Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data:
+        xml +
+        `<workbook xmlns="${main}" xmlns:r="${rel}">` +
+        `<sheets><sheet name="${
+          name || "Sheet1"
+        }" sheetId="1" r:id="rId1"/></sheets>` +
+        `</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data:
+        xml +
+        `<Relationships xmlns="${pkg}/relationships">` +
+        `<Relationship Id="rId1" Type="${rel}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data:
+        xml +
+        `<worksheet xmlns="${main}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+}
+
+// ========== Export =======================
+
+/**
+ * @description Convert a table or row array to a Blob in the given format.
+ * @param source Table element, array of row arrays or array of objects.
+ * @param options
+ * @returns
+ */
+export function tableToBlob(
+  source: ExportSource,
+  { format, sheetName, bom = false, ...options }: TableExportOptions
+) {
+  const data = getTableData(source, options);
+  const prefix = bom ? "\uFEFF" : "";
+
+  switch (format) {
+    case "csv":
+      return new Blob([prefix + toCSV(data)], { type: mimeTypes.csv });
+    case "tsv":
+      return new Blob([prefix + toTSV(data)], { type: mimeTypes.tsv });
+    case "json":
+      return new Blob([toJSON(data)], { type: mimeTypes.json });
+    case "xlsx":
+      return toXLSX(data, sheetName);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * @description Export a table or row array and download it.
+ * @example exportTable(document.querySelector("table")!, { format: "csv" })
+ * @param source Table element, array of row arrays or array of objects.
+ * @param options
+ * @returns The exported Blob.
+ */
+export function exportTable(source: ExportSource, options: TableExportOptions) {
+  const blob = tableToBlob(source, options);
+  saveBlob(blob, options.filename || `table.${options.format}`);
+  return blob;
+}
@@ -0,0 +1,815 @@
+/**
+ * Data table controller for server-rendered `<table class="table">` markup,
+ * with an optional remote mode for server-driven pagination.
+ * Path: src/table.ts
+ */
+
+import { createEmitter, type Emitter } from "./events";
+import { debounce } from "./scheduling";
+
+export type SortDirection = "asc" | "desc";
+export type ColumnType = "string" | "number" | "date";
+
+export interface DataTableSort {
+  column: number;
+  direction: SortDirection;
+}
+
+export interface DataTableState {
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  /** Number of rows that match the filter. */
+  total: number;
+  sort: DataTableSort | null;
+  filter: string;
+}
+
+export interface DataTableEvents {
+  page: DataTableState;
+  sort: DataTableState;
+  filter: DataTableState;
+  /** Remote mode: a page of rows was rendered. */
+  load: DataTableState;
+  /** Remote mode: loading rows failed. */
+  error: unknown;
+}
+
+export interface DataTableColumn<Row> {
+  /** Property of the row object shown in this column. */
+  key: string;
+  /** Header text, used when the table has no `thead`. */
+  header?: string;
+  /** Defaults to true. */
+  sortable?: boolean;
+  /**
+   * Cell content. Strings are inserted as text, never as HTML.
+   * Defaults to the property value.
+   */
+  render?: (value: unknown, row: Row) => string | Node;
+}
+
+export interface RemoteQuery {
+  page: number;
+  pageSize: number;
+  sort: DataTableSort | null;
+  /** Column key of the sorted column. */
+  sortKey: string | null;
+  filter: string;
+  /** Aborted when a newer request supersedes this one. */
+  signal: AbortSignal;
+}
+
+export interface RemoteResult<Row> {
+  rows: Row[];
+  /** Number of rows matching the filter on the server. */
+  total: number;
+}
+
+export interface RemoteDataOptions<Row> {
+  columns: DataTableColumn<Row>[];
+  /** Load a page of rows. Takes precedence over `url`. */
+  fetcher?: (query: RemoteQuery) => Promise<RemoteResult<Row>>;
+  /**
+   * URL of a JSON endpoint. `{page}`, `{pageSize}`, `{sort}` and `{filter}`
+   * placeholders are replaced; without placeholders the values are appended
+   * as query parameters. Sort is sent as "key:asc" or "key:desc".
+   */
+  url?: string;
+  /** Map the JSON response to rows and total. Defaults to `{ rows, total }`. */
+  transform?: (json: unknown) => RemoteResult<Row>;
+  /** Delay before a request is sent, in milliseconds. Defaults to 250. */
+  debounce?: number;
+  /**
+   * Keep page, page size, sort and filter in the URL query string so that
+   * back and forward work. Pass a string to prefix the parameter names.
+   * Defaults to true.
+   */
+  history?: boolean | string;
+  /** Defaults to "Loading...". */
+  loadingText?: string;
+  /** Defaults to "Failed to load rows.". */
+  errorText?: string;
+}
+
+export interface DataTableOptions<Row = Record<string, unknown>> {
+  /** Initial page (1-based). Defaults to 1. */
+  page?: number;
+  /** Rows per page. Defaults to 10. */
+  pageSize?: number;
+  /** Choices for the page size selector. Pass false to hide it. */
+  pageSizes?: number[] | false;
+  /** Sort by clicking column headers. Defaults to true. */
+  sortable?: boolean;
+  /** Show a free-text filter box. Defaults to true. */
+  filterable?: boolean;
+  /** Initial sort. */
+  sort?: DataTableSort;
+  /** Initial filter text. */
+  filter?: string;
+  /**
+   * Column types by index. Columns without a type (or a `data-type`
+   * attribute on their header) are detected from their values.
+   */
+  columnTypes?: Record<number, ColumnType>;
+  /** Class name of the pagination buttons. */
+  buttonClassName?: string;
+  /** Placeholder of the filter box. */
+  filterPlaceholder?: string;
+  /** Maximum number of numbered page links. Defaults to 7. */
+  maxPageLinks?: number;
+  /** Load rows from a server instead of reading them from `tbody`. */
+  remote?: RemoteDataOptions<Row>;
+}
+
+export interface DataTable {
+  readonly state: DataTableState;
+  on: Emitter<DataTableEvents>["on"];
+  goTo(page: number): void;
+  setPageSize(pageSize: number): void;
+  /** Sort by a column. Toggles the direction when omitted. */
+  sortBy(column: number, direction?: SortDirection): void;
+  /** Remove the current sort and restore the original row order. */
+  clearSort(): void;
+  setFilter(filter: string): void;
+  /** Re-read the rows after `tbody` changed (remote mode: reload the page). */
+  refresh(): void;
+  /** Remove the controls and restore the table. */
+  destroy(): void;
+}
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+function cellText(row: HTMLTableRowElement, column: number) {
+  const cell = row.children[column] as HTMLTableCellElement | undefined;
+  if (!cell) return "";
+  return cell.dataset.sortValue ?? cell.textContent?.trim() ?? "";
+}
+
+// Accepts "1,234.50", "$12", "45%" and similar.
+function parseNumber(text: string) {
+  const cleaned = text
+    .replace(/[\s,]/g, "")
+    .replace(/^[^\d.+-]+|[^\d.]+$/g, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+function detectType(values: string[]): ColumnType {
+  const present = values.filter((value) => value !== "");
+  if (present.length === 0) return "string";
+  if (present.every((value) => !isNaN(parseNumber(value)))) return "number";
+  if (present.every((value) => !isNaN(Date.parse(value)))) return "date";
+  return "string";
+}
+
+function sortKey(text: string, type: ColumnType) {
+  if (text === "") return null;
+  if (type === "number") return parseNumber(text);
+  if (type === "date") return Date.parse(text);
+  return text;
+}
+
+function compareKeys(a: string | number | null, b: string | number | null) {
+  // Empty cells always sort last.
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * @description Page numbers to show, with null for a gap ("…").
+ * e.g. pageLinks(6, 20, 7) => [1, null, 5, 6, 7, null, 20]
+ * @param page Current page.
+ * @param pageCount Number of pages.
+ * @param max Maximum number of entries (at least 5).
+ * @returns
+ */
+export function pageLinks(page: number, pageCount: number, max = 7) {
+  max = Math.max(5, max);
+  if (pageCount <= max) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  const edge = Math.ceil(max / 2);
+
+  if (page <= edge) {
+    return [...range(1, max - 2), null, pageCount];
+  }
+
+  if (page > pageCount - edge) {
+    return [1, null, ...range(pageCount - max + 3, pageCount)];
+  }
+
+  const span = max - 4;
+  const start = page - Math.floor((span - 1) / 2);
+  return [1, null, ...range(start, start + span - 1), null, pageCount];
+}
+
+const remotePlaceholder = /\{(page|pageSize|sort|filter)\}/g;
+
+function remoteUrl(template: string, query: RemoteQuery) {
+  const values: Record<string, string> = {
+    page: String(query.page),
+    pageSize: String(query.pageSize),
+    sort:
+      query.sort && query.sortKey
+        ? `${query.sortKey}:${query.sort.direction}`
+        : "",
+    filter: query.filter,
+  };
+
+  if (template.match(remotePlaceholder)) {
+    return template.replace(remotePlaceholder, (_, key: string) =>
+      encodeURIComponent(values[key])
+    );
+  }
+
+  const url = new URL(template, location.href);
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== "") url.searchParams.set(key, value);
+  });
+  return url.href;
+}
+
+async function fetchRemoteRows<Row>(
+  { url, transform }: RemoteDataOptions<Row>,
+  query: RemoteQuery
+): Promise<RemoteResult<Row>> {
+  if (!url) {
+    throw new Error("Remote data table needs a fetcher or a url");
+  }
+
+  const response = await fetch(remoteUrl(url, query), {
+    headers: { Accept: "application/json" },
+    signal: query.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load rows. Status: ${response.status}`);
+  }
+
+  const json: unknown = await response.json();
+  return transform ? transform(json) : (json as RemoteResult<Row>);
+}
+
+/**
+ * @description Turn a table into a data table with sorting, filtering and
+ * pagination. Rows are read from the first `tbody`; header cells from the
+ * last row of `thead`.
+ * In remote mode, rows are fetched a page at a time and rendered into `tbody`
+ * from `remote.columns`; sorting and filtering happen on the server.
+ * @example
+ * createDataTable(table, {
+ *   remote: {
+ *     url: "/api/users?page={page}&pageSize={pageSize}&sort={sort}&filter={filter}",
+ *     columns: [{ key: "name", header: "Name" }, { key: "age", header: "Age" }],
+ *   },
+ * });
+ * @param table Table element.
+ * @param options
+ * @returns A handle to control and destroy the data table.
+ */
+export function createDataTable<Row = Record<string, unknown>>(
+  table: HTMLTableElement,
+  options: DataTableOptions<Row> = {}
+): DataTable {
+  const {
+    pageSizes = [10, 25, 50, 100],
+    sortable = true,
+    filterable = true,
+    columnTypes = {},
+    buttonClassName = "btn btn-primary btn-sm",
+    filterPlaceholder = "Filter...",
+    maxPageLinks = 7,
+    remote,
+  } = options;
+
+  const events = createEmitter<DataTableEvents>();
+  const tbody = table.querySelector("tbody") ?? table.createTBody();
+
+  if (remote && !table.querySelector("thead th")) {
+    const thead = table.querySelector("thead") ?? table.createTHead();
+    const row = document.createElement("tr");
+    thead.appendChild(row);
+    remote.columns.forEach((column) => {
+      const th = document.createElement("th");
+      th.innerText = column.header ?? column.key;
+      row.appendChild(th);
+    });
+  }
+
+  const headerRows = table.querySelectorAll("thead tr");
+  const headerRow = headerRows[headerRows.length - 1];
+  const headers = Array.from(
+    headerRow?.querySelectorAll<HTMLTableCellElement>("th, td") ?? []
+  );
+  const isSortable = (column: number) =>
+    sortable && (!remote || remote.columns[column]?.sortable !== false);
+
+  let rows: HTMLTableRowElement[] = [];
+  let sorted: HTMLTableRowElement[] = [];
+  let searchText = new Map<HTMLTableRowElement, string>();
+  let types: ColumnType[] = [];
+  let matches: HTMLTableRowElement[] = [];
+  // Remote mode: total reported by the server, unknown until the first load.
+  let remoteTotal: number | undefined;
+
+  let page = options.page || 1;
+  let pageSize = options.pageSize || 10;
+  let sort: DataTableSort | null = options.sort ?? null;
+  let filter = options.filter ?? "";
+  let destroyed = false;
+
+  // ========== URL state =======================
+
+  const historyPrefix =
+    typeof remote?.history === "string" ? remote.history : "";
+  const syncHistory = !!remote && remote.history !== false;
+  const param = (name: string) => historyPrefix + name;
+
+  const readUrl = () => {
+    const params = new URLSearchParams(location.search);
+    const urlPage = Number(params.get(param("page")));
+    const urlSize = Number(params.get(param("pageSize")));
+    const [key, direction] = (params.get(param("sort")) ?? "").split(":");
+    const column = remote!.columns.findIndex((c) => c.key === key);
+
+    page = urlPage > 0 ? urlPage : options.page || 1;
+    pageSize = urlSize > 0 ? urlSize : options.pageSize || 10;
+    filter = params.get(param("filter")) ?? options.filter ?? "";
+    sort =
+      column >= 0 && (direction === "asc" || direction === "desc")
+        ? { column, direction }
+        : options.sort ?? null;
+  };
+
+  const writeUrl = () => {
+    const url = new URL(location.href);
+    const set = (name: string, value: string, fallback: string) => {
+      if (value === fallback) url.searchParams.delete(param(name));
+      else url.searchParams.set(param(name), value);
+    };
+
+    set("page", String(page), "1");
+    set("pageSize", String(pageSize), String(options.pageSize || 10));
+    set("filter", filter, "");
+    set(
+      "sort",
+      sort ? `${remote!.columns[sort.column]?.key}:${sort.direction}` : "",
+      ""
+    );
+
+    if (url.href !== location.href) {
+      history.pushState(history.state, "", url.href);
+    }
+  };
+
+  if (syncHistory) readUrl();
+
+  // ========== Controls =======================
+  const toolbar = document.createElement("div");
+  toolbar.className = "table-toolbar";
+
+  const filterInput = document.createElement("input");
+  filterInput.type = "search";
+  filterInput.className = "table-filter";
+  filterInput.placeholder = filterPlaceholder;
+  filterInput.value = filter;
+  filterInput.setAttribute("aria-label", "Filter rows");
+
+  const sizeSelect = document.createElement("select");
+  sizeSelect.className = "table-page-size";
+  sizeSelect.setAttribute("aria-label", "Rows per page");
+
+  if (pageSizes) {
+    const sizes = pageSizes.includes(pageSize)
+      ? pageSizes
+      : [...pageSizes, pageSize].sort((a, b) => a - b);
+
+    sizes.forEach((size) => {
+      const option = document.createElement("option");
+      option.value = String(size);
+      option.innerText = `${size} per page`;
+      option.selected = size === pageSize;
+      sizeSelect.appendChild(option);
+    });
+  }
+
+  if (filterable) toolbar.appendChild(filterInput);
+  if (pageSizes) toolbar.appendChild(sizeSelect);
+
+  const pagination = document.createElement("div");
+  pagination.classList.add("pagination");
+
+  const info = document.createElement("span");
+  info.className = "table-info";
+  info.setAttribute("aria-live", "polite");
+
+  const nav = document.createElement("nav");
+  nav.className = "table-pages";
+  nav.setAttribute("aria-label", "Pagination");
+
+  pagination.appendChild(info);
+  pagination.appendChild(nav);
+
+  if (toolbar.childElementCount)
+    table.insertAdjacentElement("beforebegin", toolbar);
+  table.insertAdjacentElement("afterend", pagination);
+
+  const createButton = (text: string, target: number, disabled: boolean) => {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = buttonClassName;
+    button.innerText = text;
+    button.disabled = disabled;
+    button.addEventListener("click", () => goTo(target));
+    return button;
+  };
+
+  // ========== Rendering =======================
+
+  const getState = (): DataTableState => {
+    const total = remote ? remoteTotal ?? 0 : matches.length;
+    const pageCount =
+      remote && remoteTotal === undefined
+        ? page
+        : Math.max(1, Math.ceil(total / pageSize));
+    return {
+      page,
+      pageSize,
+      pageCount,
+      total,
+      sort: sort && { ...sort },
+      filter,
+    };
+  };
+
+  const readRows = () => {
+    rows = Array.from(tbody.querySelectorAll("tr"));
+    searchText = new Map(
+      rows.map((row) => [row, (row.textContent ?? "").toLowerCase()])
+    );
+    types = headers.map((header, column) => {
+      const declared = columnTypes[column] ?? header.dataset.type;
+      if (declared) return declared as ColumnType;
+      return detectType(rows.map((row) => cellText(row, column)));
+    });
+  };
+
+  const applySort = () => {
+    if (sort) {
+      const { column, direction } = sort;
+      const factor = direction === "asc" ? 1 : -1;
+      const keys = new Map(
+        rows.map((row) => [row, sortKey(cellText(row, column), types[column])])
+      );
+
+      // Array.prototype.sort is stable, so equal rows keep their order.
+      sorted = [...rows].sort((a, b) => {
+        const ka = keys.get(a)!;
+        const kb = keys.get(b)!;
+        if (ka === null || kb === null) return compareKeys(ka, kb);
+        return compareKeys(ka, kb) * factor;
+      });
+    } else {
+      sorted = rows;
+    }
+
+    sorted.forEach((row) => tbody.appendChild(row));
+  };
+
+  const applyFilter = () => {
+    const query = filter.trim().toLowerCase();
+    matches = query
+      ? sorted.filter((row) => searchText.get(row)!.includes(query))
+      : sorted;
+  };
+
+  const showPage = () => {
+    const start = (page - 1) * pageSize;
+    const visible = new Set(matches.slice(start, start + pageSize));
+
+    rows.forEach((row) => {
+      row.style.display = visible.has(row) ? "" : "none";
+    });
+  };
+
+  const renderHeaders = () => {
+    headers.forEach((header, column) => {
+      if (!isSortable(column)) return;
+      const direction = sort?.column === column ? sort.direction : null;
+      header.setAttribute(
+        "aria-sort",
+        direction === "asc"
+          ? "ascending"
+          : direction === "desc"
+          ? "descending"
+          : "none"
+      );
+    });
+  };
+
+  const renderControls = () => {
+    const { pageCount, total } = getState();
+    const start = (page - 1) * pageSize;
+    const end = Math.min(start + pageSize, total);
+
+    info.innerText = total
+      ? `Showing ${start + 1}–${end} of ${total}`
+      : "No matching rows";
+    if (!remote && total !== rows.length) {
+      info.innerText += ` (filtered from ${rows.length})`;
+    }
+
+    nav.replaceChildren(
+      createButton("Prev", page - 1, page === 1),
+      ...pageLinks(page, pageCount, maxPageLinks).map((link) => {
+        if (link === null) {
+          const gap = document.createElement("span");
+          gap.className = "table-pages-gap";
+          gap.innerText = "…";
+          return gap;
+        }
+
+        const button = createButton(String(link), link, false);
+        if (link === page) {
+          button.classList.add("active");
+          button.setAttribute("aria-current", "page");
+        }
+        return button;
+      }),
+      createButton("Next", page + 1, page === pageCount)
+    );
+  };
+
+  const render = () => {
+    if (!remote) {
+      page = Math.min(Math.max(1, page), getState().pageCount);
+      showPage();
+    }
+    renderHeaders();
+    renderControls();
+  };
+
+  // ========== Remote loading =======================
+
+  let controller: AbortController | undefined;
+
+  const messageRow = (className: string, ...content: (string | Node)[]) => {
+    const tr = document.createElement("tr");
+    const td = document.createElement("td");
+    td.className = className;
+    td.colSpan = Math.max(1, remote!.columns.length);
+    td.append(...content);
+    tr.appendChild(td);
+    return tr;
+  };
+
+  const renderRemoteRows = (data: Row[]) => {
+    if (data.length === 0) {
+      tbody.replaceChildren(messageRow("table-empty", "No matching rows"));
+      return;
+    }
+
+    tbody.replaceChildren(
+      ...data.map((row) => {
+        const tr = document.createElement("tr");
+        remote!.columns.forEach((column) => {
+          const td = document.createElement("td");
+          const value = (row as Record<string, unknown>)?.[column.key];
+          td.append(
+            column.render
+              ? column.render(value, row)
+              : value == null
+              ? ""
+              : String(value)
+          );
+          tr.appendChild(td);
+        });
+        return tr;
+      })
+    );
+  };
+
+  const load = async (push = true) => {
+    if (destroyed || !remote) return;
+    if (push && syncHistory) writeUrl();
+
+    controller?.abort();
+    const current = (controller = new AbortController());
+    table.classList.add("table-loading");
+    table.setAttribute("aria-busy", "true");
+    info.innerText = remote.loadingText ?? "Loading...";
+
+    try {
+      const query: RemoteQuery = {
+        page,
+        pageSize,
+        sort: sort && { ...sort },
+        sortKey: sort ? remote.columns[sort.column]?.key ?? null : null,
+        filter,
+        signal: current.signal,
+      };
+      const result = remote.fetcher
+        ? await remote.fetcher(query)
+        : await fetchRemoteRows(remote, query);
+      if (current.signal.aborted) return;
+
+      remoteTotal = result.total;
+      const { pageCount } = getState();
+      if (page > pageCount) {
+        // The data shrank: show the last page instead.
+        page = pageCount;
+        load(false);
+        return;
+      }
+
+      renderRemoteRows(result.rows);
+      events.emit("load", getState());
+    } catch (error) {
+      if (current.signal.aborted) return;
+
+      const retry = document.createElement("button");
+      retry.type = "button";
+      retry.className = buttonClassName;
+      retry.innerText = "Retry";
+      retry.addEventListener("click", () => load(false));
+
+      tbody.replaceChildren(
+        messageRow(
+          "table-error",
+          remote.errorText ?? "Failed to load rows.",
+          " ",
+          retry
+        )
+      );
+      events.emit("error", error);
+    } finally {
+      if (controller === current) {
+        controller = undefined;
+        table.classList.remove("table-loading");
+        table.removeAttribute("aria-busy");
+        renderControls();
+      }
+    }
+  };
+
+  const scheduleLoad = debounce(load, remote?.debounce ?? 250);
+
+  // Re-render after a state change and notify listeners.
+  const commit = (type: "page" | "sort" | "filter") => {
+    render();
+    if (remote) scheduleLoad();
+    events.emit(type, getState());
+  };
+
+  // ========== Actions =======================
+
+  const goTo = (target: number) => {
+    const { pageCount } = getState();
+    target = Math.min(Math.max(1, target), pageCount);
+    if (target === page) return;
+    page = target;
+    commit("page");
+  };
+
+  const setPageSize = (size: number) => {
+    if (size < 1 || size === pageSize) return;
+    // Keep the first visible row on screen.
+    const first = (page - 1) * pageSize;
+    pageSize = size;
+    sizeSelect.value = String(size);
+    page = Math.floor(first / size) + 1;
+    commit("page");
+  };
+
+  const sortBy = (column: number, direction?: SortDirection) => {
+    if (!direction) {
+      direction =
+        sort?.column === column && sort.direction === "asc" ? "desc" : "asc";
+    }
+    sort = { column, direction };
+    if (!remote) {
+      applySort();
+      applyFilter();
+    }
+    commit("sort");
+  };
+
+  const clearSort = () => {
+    sort = null;
+    if (!remote) {
+      applySort();
+      applyFilter();
+    }
+    commit("sort");
+  };
+
+  const setFilter = (text: string) => {
+    if (text === filter) return;
+    filter = text;
+    filterInput.value = text;
+    page = 1;
+    if (!remote) applyFilter();
+    commit("filter");
+  };
+
+  const refresh = () => {
+    if (remote) {
+      render();
+      load(false);
+      return;
+    }
+
+    readRows();
+    applySort();
+    applyFilter();
+    render();
+  };
+
+  // ========== Listeners =======================
+
+  const onFilterInput = () => setFilter(filterInput.value);
+  const onSizeChange = () => setPageSize(Number(sizeSelect.value));
+  const onPopState = () => {
+    readUrl();
+    filterInput.value = filter;
+    sizeSelect.value = String(pageSize);
+    render();
+    load(false);
+  };
+
+  const headerHandlers = headers.map((header, column) => {
+    const onClick = () => sortBy(column);
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Enter" || event.key === " ") {
+        event.preventDefault();
+        sortBy(column);
+      }
+    };
+    return { header, column, onClick, onKeyDown };
+  });
+
+  filterInput.addEventListener("input", onFilterInput);
+  sizeSelect.addEventListener("change", onSizeChange);
+  if (syncHistory) window.addEventListener("popstate", onPopState);
+
+  headerHandlers.forEach(({ header, column, onClick, onKeyDown }) => {
+    if (!isSortable(column)) return;
+    header.classList.add("sortable");
+    header.tabIndex = 0;
+    header.addEventListener("click", onClick);
+    header.addEventListener("keydown", onKeyDown);
+  });
+
+  const destroy = () => {
+    destroyed = true;
+    scheduleLoad.cancel();
+    controller?.abort();
+    filterInput.removeEventListener("input", onFilterInput);
+    sizeSelect.removeEventListener("change", onSizeChange);
+    window.removeEventListener("popstate", onPopState);
+    table.classList.remove("table-loading");
+    table.removeAttribute("aria-busy");
+
+    headerHandlers.forEach(({ header, column, onClick, onKeyDown }) => {
+      header.removeEventListener("click", onClick);
+      header.removeEventListener("keydown", onKeyDown);
+      if (isSortable(column)) {
+        header.classList.remove("sortable");
+        header.removeAttribute("tabindex");
+        header.removeAttribute("aria-sort");
+      }
+    });
+
+    rows.forEach((row) => {
+      row.style.display = "";
+      tbody.appendChild(row);
+    });
+
+    toolbar.remove();
+    pagination.remove();
+    events.clear();
+  };
+
+  refresh();
+
+  return {
+    get state() {
+      return getState();
+    },
+    on: events.on,
+    goTo,
+    setPageSize,
+    sortBy,
+    clearSort,
+    setFilter,
+    refresh,
+    destroy,
+  };
+}
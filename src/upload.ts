@@ -0,0 +1,525 @@
+/**
+ * Chunked, resumable uploads with retries and limited concurrency.
+ * Path: src/upload.ts
+ *
+ * Chunk protocol (see src/server/upload-server.ts for a local test server):
+ * - `POST {url}` with JSON `{ name, size, type, chunkSize }`
+ *   creates an upload and returns `{ uploadId, chunkSize }`.
+ * - `GET {url}/{uploadId}` returns `{ uploadId, size, chunkSize, received }`,
+ *   where `received` lists the indexes of the stored chunks (404 if unknown).
+ * - `PUT {url}/{uploadId}/{index}` stores one chunk (raw bytes).
+ * - `POST {url}/{uploadId}/complete` assembles the file and returns the
+ *   server's JSON response.
+ */
+
+import { createEmitter, type Emitter } from "./events";
+import { processFiles, type FileProcessor } from "./file-processing";
+import { sleep } from "./scheduling";
+
+export type UploadStatus =
+  | "pending"
+  | "uploading"
+  | "complete"
+  | "error"
+  | "aborted";
+
+export interface UploadFileProgress {
+  file: File;
+  uploadId?: string;
+  status: UploadStatus;
+  /** Bytes uploaded, including chunks stored before a resume. */
+  loaded: number;
+  total: number;
+  /** Fraction uploaded, from 0 to 1. */
+  progress: number;
+  /** Bytes per second over the last few seconds. */
+  speed: number;
+  /** Estimated seconds left, or Infinity while the speed is unknown. */
+  eta: number;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  progress: number;
+  speed: number;
+  eta: number;
+  files: UploadFileProgress[];
+}
+
+export interface UploadResult<T> {
+  file: File;
+  uploadId?: string;
+  /** The response of the complete request. */
+  response?: T;
+  error?: Error;
+}
+
+export interface UploadEvents<T> {
+  progress: UploadProgress;
+  filecomplete: UploadResult<T>;
+  retry: {
+    file: File;
+    /** Chunk index, or null for the create and complete requests. */
+    chunk: number | null;
+    attempt: number;
+    /** Delay in ms before the next attempt. */
+    delay: number;
+    error: Error;
+  };
+  error: { file: File; error: Error };
+}
+
+/** Where upload IDs are kept between page loads. */
+export interface ResumeStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface UploadManagerOptions {
+  /** Upload endpoint. */
+  url: string;
+  /** Chunk size in bytes. Defaults to 5 MiB. The server may override it. */
+  chunkSize?: number;
+  /** Maximum number of chunk requests in flight. Defaults to 3. */
+  concurrency?: number;
+  /** Attempts per request after the first one. Defaults to 5. */
+  retries?: number;
+  /** Base delay in ms of the exponential backoff. Defaults to 500. */
+  retryDelay?: number;
+  /** Maximum delay in ms between attempts. Defaults to 30000. */
+  maxRetryDelay?: number;
+  /** Custom headers sent with every request. */
+  headers?: Record<string, string>;
+  /**
+   * Resume interrupted uploads by keeping their upload IDs in a store.
+   * Defaults to true, which uses localStorage.
+   */
+  resume?: boolean | ResumeStore;
+  /**
+   * Validate and transform files before uploading. Rejected files are
+   * reported as results with an error and are not uploaded.
+   */
+  processors?: FileProcessor[];
+  /** Maximum number of files per upload() call. */
+  maxFiles?: number;
+}
+
+export interface UploadManager<T> {
+  on: Emitter<UploadEvents<T>>["on"];
+  /**
+   * Upload files. Resolves with one result per file once every file has
+   * completed or failed (files rejected by the processors come last);
+   * rejects if the signal is aborted.
+   */
+  upload(
+    files: File[] | FileList,
+    options?: { signal?: AbortSignal }
+  ): Promise<UploadResult<T>[]>;
+}
+
+// Errors for HTTP responses carry the status code.
+function httpError(status: number, message: string) {
+  return Object.assign(new Error(message), { status });
+}
+
+function statusOf(error: unknown) {
+  return (error as { status?: number } | null)?.status;
+}
+
+// Network errors, timeouts, rate limits and server errors are worth retrying.
+function isRetryable(error: unknown) {
+  const status = statusOf(error);
+  return (
+    status === undefined || status === 408 || status === 429 || status >= 500
+  );
+}
+
+// Run at most `limit` tasks at the same time.
+function createLimiter(limit: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async <R>(task: () => Promise<R>): Promise<R> => {
+    // A woken waiter takes over the slot of the task that finished.
+    if (active >= limit) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+// Speed over a sliding window of recent samples.
+function createRateMeter(windowMs = 5000) {
+  const samples: { time: number; loaded: number }[] = [];
+
+  return (loaded: number) => {
+    const now = performance.now();
+    samples.push({ time: now, loaded });
+    while (samples.length > 2 && now - samples[0].time > windowMs) {
+      samples.shift();
+    }
+    const first = samples[0];
+    const elapsed = (now - first.time) / 1000;
+    return elapsed > 0 ? Math.max(0, (loaded - first.loaded) / elapsed) : 0;
+  };
+}
+
+// XHR rather than fetch, because fetch cannot report upload progress.
+function sendChunk(
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  onProgress: (loaded: number) => void
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url, true);
+    Object.keys(headers).forEach((header) => {
+      xhr.setRequestHeader(header, headers[header]);
+    });
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+
+    const onAbort = () => xhr.abort();
+    const cleanup = () => signal.removeEventListener("abort", onAbort);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    xhr.upload.addEventListener("progress", (event) =>
+      onProgress(event.loaded)
+    );
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(body.size);
+        resolve();
+      } else {
+        reject(
+          httpError(xhr.status, `Failed to upload chunk. Status: ${xhr.status}`)
+        );
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error("Network error during upload"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal.reason);
+    };
+
+    xhr.send(body);
+  });
+}
+
+/**
+ * @description Create an upload manager that splits files into chunks,
+ * uploads them with limited concurrency, retries failed requests with
+ * exponential backoff and resumes interrupted uploads.
+ * @example
+ * const uploads = createUploadManager<{ path: string }>({ url: "/uploads" });
+ * uploads.on("progress", ({ progress, speed, eta }) => console.log(progress));
+ * const results = await uploads.upload(input.files!, { signal });
+ * @param options
+ * @returns
+ */
+export function createUploadManager<T = unknown>({
+  url,
+  chunkSize = 5 * 1024 * 1024,
+  concurrency = 3,
+  retries = 5,
+  retryDelay = 500,
+  maxRetryDelay = 30000,
+  headers = {},
+  resume = true,
+  processors,
+  maxFiles,
+}: UploadManagerOptions): UploadManager<T> {
+  const events = createEmitter<UploadEvents<T>>();
+  const endpoint = url.replace(/\/+$/, "");
+  const store: ResumeStore | undefined =
+    resume === true
+      ? typeof localStorage !== "undefined"
+        ? localStorage
+        : undefined
+      : resume || undefined;
+
+  const resumeKey = (file: File) =>
+    `upload:${endpoint}:${file.name}:${file.size}:${file.lastModified}`;
+
+  const requestJson = async <R>(
+    input: string,
+    init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> },
+    signal: AbortSignal
+  ): Promise<R> => {
+    const response = await fetch(input, {
+      ...init,
+      headers: { ...headers, ...init.headers },
+      signal,
+    });
+    if (!response.ok) {
+      throw httpError(
+        response.status,
+        `Upload request failed. Status: ${response.status}`
+      );
+    }
+    return response.status === 204 ? (undefined as R) : response.json();
+  };
+
+  const withRetry = async <R>(
+    file: File,
+    chunk: number | null,
+    signal: AbortSignal,
+    task: () => Promise<R>
+  ): Promise<R> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Queued tasks may start after their file was aborted.
+        signal.throwIfAborted();
+        return await task();
+      } catch (error) {
+        if (signal.aborted) throw signal.reason;
+        if (attempt > retries || !isRetryable(error)) throw error;
+
+        const backoff = Math.min(
+          maxRetryDelay,
+          retryDelay * 2 ** (attempt - 1)
+        );
+        // Jitter spreads out retries from chunks that failed together.
+        const delay = Math.round(backoff * (0.5 + Math.random() / 2));
+        events.emit("retry", {
+          file,
+          chunk,
+          attempt,
+          delay,
+          error: error as Error,
+        });
+        await sleep(delay, signal);
+      }
+    }
+  };
+
+  const upload: UploadManager<T>["upload"] = async (
+    fileList,
+    { signal } = {}
+  ) => {
+    signal?.throwIfAborted();
+
+    let files = Array.from(fileList);
+    const rejected: UploadResult<T>[] = [];
+    if (processors || maxFiles !== undefined) {
+      const processed = await processFiles(files, {
+        processors,
+        maxFiles,
+        signal,
+      });
+      processed.errors.forEach((error) => {
+        events.emit("error", { file: error.file, error });
+        rejected.push({ file: error.file, error });
+      });
+      files = processed.files;
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const limit = createLimiter(concurrency);
+    const overallRate = createRateMeter();
+    const progress: UploadFileProgress[] = files.map((file) => ({
+      file,
+      status: "pending",
+      loaded: 0,
+      total: file.size,
+      progress: 0,
+      speed: 0,
+      eta: Infinity,
+    }));
+
+    const emitProgress = () => {
+      const loaded = progress.reduce((sum, file) => sum + file.loaded, 0);
+      const total = progress.reduce((sum, file) => sum + file.total, 0);
+      const speed = overallRate(loaded);
+      events.emit("progress", {
+        loaded,
+        total,
+        progress: total > 0 ? loaded / total : 1,
+        speed,
+        eta: speed > 0 ? (total - loaded) / speed : Infinity,
+        files: progress.map((file) => ({ ...file })),
+      });
+    };
+
+    const uploadFile = async (
+      file: File,
+      state: UploadFileProgress
+    ): Promise<UploadResult<T>> => {
+      const abortSignal = controller.signal;
+      const rate = createRateMeter();
+      const key = resumeKey(file);
+      let uploadId = store?.getItem(key) ?? undefined;
+      let size = chunkSize;
+      let received = new Set<number>();
+
+      state.status = "uploading";
+
+      if (uploadId) {
+        try {
+          const status = await withRetry(file, null, abortSignal, () =>
+            requestJson<{ chunkSize: number; received: number[] }>(
+              `${endpoint}/${encodeURIComponent(uploadId!)}`,
+              {},
+              abortSignal
+            )
+          );
+          size = status.chunkSize;
+          received = new Set(status.received);
+        } catch (error) {
+          // The server no longer knows the upload; start over.
+          if (statusOf(error) !== 404) {
+            throw error;
+          }
+          store?.removeItem(key);
+          uploadId = undefined;
+        }
+      }
+
+      if (!uploadId) {
+        const created = await withRetry(file, null, abortSignal, () =>
+          requestJson<{ uploadId: string; chunkSize?: number }>(
+            endpoint,
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                name: file.name,
+                size: file.size,
+                type: file.type,
+                chunkSize,
+              }),
+            },
+            abortSignal
+          )
+        );
+        uploadId = created.uploadId;
+        size = created.chunkSize || chunkSize;
+        store?.setItem(key, uploadId);
+      }
+
+      state.uploadId = uploadId;
+      const chunkCount = Math.max(1, Math.ceil(file.size / size));
+      const chunkLoaded = new Map<number, number>();
+      const chunkBytes = (index: number) =>
+        Math.min(size, file.size - index * size);
+
+      const update = () => {
+        let loaded = 0;
+        for (let i = 0; i < chunkCount; i++) {
+          loaded += received.has(i) ? chunkBytes(i) : chunkLoaded.get(i) ?? 0;
+        }
+        state.loaded = loaded;
+        state.progress = state.total > 0 ? loaded / state.total : 1;
+        state.speed = rate(loaded);
+        state.eta =
+          state.speed > 0 ? (state.total - loaded) / state.speed : Infinity;
+        emitProgress();
+      };
+      update();
+
+      const pending = Array.from({ length: chunkCount }, (_, i) => i).filter(
+        (index) => !received.has(index)
+      );
+
+      // Once a chunk fails for good, stop the other chunks of the file so
+      // that they free their slots and stop reporting progress.
+      const fileController = new AbortController();
+      const onBatchAbort = () => fileController.abort(abortSignal.reason);
+      abortSignal.addEventListener("abort", onBatchAbort, { once: true });
+      const chunkSignal = fileController.signal;
+
+      try {
+        await Promise.all(
+          pending.map((index) =>
+            limit(() =>
+              withRetry(file, index, chunkSignal, () => {
+                chunkLoaded.set(index, 0);
+                return sendChunk(
+                  `${endpoint}/${encodeURIComponent(uploadId!)}/${index}`,
+                  file.slice(index * size, index * size + size),
+                  headers,
+                  chunkSignal,
+                  (loaded) => {
+                    chunkLoaded.set(index, loaded);
+                    update();
+                  }
+                );
+              }).then(() => {
+                received.add(index);
+                update();
+              })
+            ).catch((error) => {
+              fileController.abort(error);
+              throw error;
+            })
+          )
+        );
+      } finally {
+        abortSignal.removeEventListener("abort", onBatchAbort);
+      }
+
+      const response = await withRetry(file, null, abortSignal, () =>
+        requestJson<T>(
+          `${endpoint}/${encodeURIComponent(uploadId!)}/complete`,
+          { method: "POST" },
+          abortSignal
+        )
+      );
+
+      store?.removeItem(key);
+      state.status = "complete";
+      state.eta = 0;
+      emitProgress();
+      return { file, uploadId, response };
+    };
+
+    try {
+      const results = await Promise.all(
+        files.map((file, i) =>
+          uploadFile(file, progress[i]).then(
+            (result) => {
+              events.emit("filecomplete", result);
+              return result;
+            },
+            (error: Error) => {
+              if (controller.signal.aborted) {
+                progress[i].status = "aborted";
+                throw error;
+              }
+              progress[i].status = "error";
+              events.emit("error", { file, error });
+              emitProgress();
+              return { file, uploadId: progress[i].uploadId, error };
+            }
+          )
+        )
+      );
+      return [...results, ...rejected];
+    } catch (error) {
+      controller.abort(error);
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  return { on: events.on, upload };
+}
@@ -0,0 +1,282 @@
+/**
+ * Viewport store: size, scroll, breakpoints and user preferences, updated
+ * once per animation frame.
+ * Path: src/viewport.ts
+ */
+
+export interface ViewportState {
+  width: number;
+  height: number;
+  scrollX: number;
+  scrollY: number;
+  /** Direction of the last vertical scroll, or null before any scrolling. */
+  scrollDirection: "up" | "down" | null;
+  /** How far the document is scrolled, from 0 at the top to 1 at the bottom. 0 if it does not scroll. */
+  scrollProgress: number;
+  documentHeight: number;
+  /** Name of the largest breakpoint reached, or null below the smallest. */
+  breakpoint: string | null;
+  colorScheme: "light" | "dark";
+  reducedMotion: boolean;
+}
+
+export type ViewportListener = (
+  state: ViewportState,
+  previous: ViewportState
+) => void;
+
+export interface ViewportStoreOptions {
+  /**
+   * Minimum widths in px by name, as in mobile-first CSS. Defaults to
+   * `{ sm: 640, md: 768, lg: 1024, xl: 1280 }`.
+   */
+  breakpoints?: Record<string, number>;
+}
+
+export interface ViewportStore {
+  /** The current state. Measured on demand while nobody is subscribed. */
+  get(): ViewportState;
+  /**
+   * Listen for changes.
+   * @param listener
+   * @param keys Only call the listener when one of these values changes.
+   * @returns A function that removes the listener.
+   */
+  subscribe(
+    listener: ViewportListener,
+    keys?: (keyof ViewportState)[]
+  ): () => void;
+  /**
+   * Listen for changes to a value derived from the state.
+   * @example viewport.select((s) => s.width < 768, (mobile) => toggleNav(mobile));
+   * @returns A function that removes the listener.
+   */
+  select<T>(
+    selector: (state: ViewportState) => T,
+    listener: (value: T, previous: T) => void,
+    equals?: (a: T, b: T) => boolean
+  ): () => void;
+  /** Whether the viewport is at least as wide as a breakpoint. */
+  atLeast(breakpoint: string): boolean;
+  /** Remove every listener. */
+  destroy(): void;
+}
+
+const DEFAULT_BREAKPOINTS = { sm: 640, md: 768, lg: 1024, xl: 1280 };
+
+// ========== Getters =======================
+
+/**
+ * @description Get the current window width.
+ * @deprecated Use `viewport.get().width`, or subscribe to changes.
+ * @returns
+ */
+export const getWindowWidth = () => {
+  return (
+    window.innerWidth ||
+    document.documentElement.clientWidth ||
+    document.body.clientWidth
+  );
+};
+
+/**
+ * @description Get the current window height.
+ * @deprecated Use `viewport.get().height`, or subscribe to changes.
+ * @returns
+ */
+export const getWindowHeight = () => {
+  return (
+    window.innerHeight ||
+    document.documentElement.clientHeight ||
+    document.body.clientHeight
+  );
+};
+
+/**
+ * @description Get the current window scroll position.
+ * @deprecated Use `viewport.get().scrollY`, or subscribe to changes.
+ * @returns
+ */
+export const getWindowScroll = () => {
+  return (
+    window.scrollY ||
+    document.body.scrollTop ||
+    document.documentElement.scrollTop
+  );
+};
+
+/**
+ * @description Get the height of the document.
+ * @deprecated Use `viewport.get().documentHeight`, or subscribe to changes.
+ * @returns
+ */
+export const getDocumentHeight = () => {
+  return document.body.scrollHeight || document.documentElement.scrollHeight;
+};
+
+// ========== Store =======================
+
+/**
+ * @description Create a store that tracks the viewport. Window listeners
+ * are added on the first subscription and removed after the last, and
+ * updates are batched to one per animation frame. Listeners are only
+ * called when something they watch changes.
+ * @example
+ * const store = createViewportStore({ breakpoints: { tablet: 768, desktop: 1200 } });
+ * store.subscribe(({ scrollDirection }) => {
+ *   header.classList.toggle("hidden", scrollDirection === "down");
+ * }, ["scrollDirection"]);
+ * @param options
+ * @returns
+ */
+export function createViewportStore({
+  breakpoints = DEFAULT_BREAKPOINTS,
+}: ViewportStoreOptions = {}): ViewportStore {
+  const sorted = Object.entries(breakpoints).sort(([, a], [, b]) => a - b);
+  const queries = new Map<string, MediaQueryList>();
+  const listeners = new Set<ViewportListener>();
+
+  let state: ViewportState | undefined;
+  let detach: (() => void) | undefined;
+  let frame = 0;
+
+  // Media query lists are reused so that their change events can be watched.
+  const media = (query: string) => {
+    if (!queries.has(query)) queries.set(query, window.matchMedia(query));
+    return queries.get(query)!;
+  };
+
+  const breakpointQuery = (name: string) => {
+    if (!(name in breakpoints)) {
+      throw new Error(`Unknown breakpoint "${name}"`);
+    }
+    return media(`(min-width: ${breakpoints[name]}px)`);
+  };
+
+  const measure = (previous?: ViewportState): ViewportState => {
+    const width = getWindowWidth();
+    const height = getWindowHeight();
+    const scrollY = getWindowScroll();
+    const documentHeight = getDocumentHeight();
+    const scrollable = documentHeight - height;
+
+    let scrollDirection = previous?.scrollDirection ?? null;
+    if (previous && scrollY !== previous.scrollY) {
+      scrollDirection = scrollY > previous.scrollY ? "down" : "up";
+    }
+
+    let breakpoint: string | null = null;
+    sorted.forEach(([name]) => {
+      if (breakpointQuery(name).matches) breakpoint = name;
+    });
+
+    return {
+      width,
+      height,
+      scrollX: window.scrollX || document.documentElement.scrollLeft,
+      scrollY,
+      scrollDirection,
+      scrollProgress:
+        scrollable > 0 ? Math.min(1, Math.max(0, scrollY / scrollable)) : 0,
+      documentHeight,
+      breakpoint,
+      colorScheme: media("(prefers-color-scheme: dark)").matches
+        ? "dark"
+        : "light",
+      reducedMotion: media("(prefers-reduced-motion: reduce)").matches,
+    };
+  };
+
+  const update = () => {
+    frame = 0;
+    const previous = state!;
+    const next = measure(previous);
+    const changed = (Object.keys(next) as (keyof ViewportState)[]).some(
+      (key) => !Object.is(next[key], previous[key])
+    );
+    if (!changed) return;
+    state = next;
+    // Copy so that listeners can unsubscribe while being called.
+    [...listeners].forEach((listener) => listener(next, previous));
+  };
+
+  const schedule = () => {
+    if (!frame) frame = requestAnimationFrame(update);
+  };
+
+  const attach = () => {
+    state = measure(state);
+    window.addEventListener("resize", schedule, { passive: true });
+    window.addEventListener("scroll", schedule, { passive: true });
+    queries.forEach((query) => query.addEventListener("change", schedule));
+
+    // The document grows and shrinks without resize events as content loads.
+    const resizeObserver =
+      typeof ResizeObserver === "undefined"
+        ? undefined
+        : new ResizeObserver(schedule);
+    resizeObserver?.observe(document.documentElement);
+
+    return () => {
+      window.removeEventListener("resize", schedule);
+      window.removeEventListener("scroll", schedule);
+      queries.forEach((query) => query.removeEventListener("change", schedule));
+      resizeObserver?.disconnect();
+      cancelAnimationFrame(frame);
+      frame = 0;
+    };
+  };
+
+  const subscribe: ViewportStore["subscribe"] = (listener, keys) => {
+    const wrapped: ViewportListener = (next, previous) => {
+      if (!keys || keys.some((key) => !Object.is(next[key], previous[key]))) {
+        listener(next, previous);
+      }
+    };
+    listeners.add(wrapped);
+    if (!detach) detach = attach();
+
+    return () => {
+      listeners.delete(wrapped);
+      if (listeners.size === 0 && detach) {
+        detach();
+        detach = undefined;
+      }
+    };
+  };
+
+  const get = () => {
+    if (detach) return state!;
+    state = measure(state);
+    return state;
+  };
+
+  return {
+    get,
+    subscribe,
+    select(selector, listener, equals = Object.is) {
+      let current = selector(get());
+      return subscribe((next) => {
+        const value = selector(next);
+        if (equals(value, current)) return;
+        const previous = current;
+        current = value;
+        listener(value, previous);
+      });
+    },
+    atLeast(name) {
+      return breakpointQuery(name).matches;
+    },
+    destroy() {
+      listeners.clear();
+      detach?.();
+      detach = undefined;
+    },
+  };
+}
+
+/**
+ * The viewport store with the default breakpoints. Nothing is measured or
+ * listened to until it is used.
+ */
+export const viewport = createViewportStore();
@@ -0,0 +1,562 @@
+/**
+ * Visibility: shared intersection observers, lazy loading, infinite scroll
+ * and scroll spy.
+ * Path: src/visibility.ts
+ */
+
+import { getWindowHeight, getWindowWidth } from "./viewport";
+
+export interface VisibilityOptions {
+  /** Element whose box is used as the viewport. Defaults to the browser viewport. */
+  root?: Element | Document | null;
+  /** Grows or shrinks the root box, e.g. "200px" to trigger before elements scroll in. */
+  rootMargin?: string;
+  /**
+   * Ratios of the element that must be visible to report a change. An
+   * element counts as visible once it reaches the smallest one. Defaults to 0.
+   */
+  threshold?: number | number[];
+}
+
+export interface ObserveVisibilityOptions extends VisibilityOptions {
+  /** Called when the element becomes visible. */
+  onEnter?: (entry: IntersectionObserverEntry) => void;
+  /** Called when the element stops being visible, but not before it was first visible. */
+  onLeave?: (entry: IntersectionObserverEntry) => void;
+  /** Called on every threshold crossing; `entry.intersectionRatio` is the visible ratio. */
+  onChange?: (entry: IntersectionObserverEntry) => void;
+  /** Stop observing after the first `onEnter`. */
+  once?: boolean;
+}
+
+export interface LazyLoadOptions {
+  /** Defaults to "[data-src], [data-srcset]". */
+  selector?: string;
+  /** Defaults to "200px", so that media loads shortly before it scrolls in. */
+  rootMargin?: string;
+  root?: Element | Document | null;
+  /** Class added once the media has loaded. Defaults to "loaded". */
+  loadedClass?: string;
+  /** Load matching elements added to `container` later. Defaults to true. */
+  watch?: boolean;
+  onLoad?: (element: HTMLElement) => void;
+  onError?: (element: HTMLElement) => void;
+}
+
+export interface InfiniteScrollOptions {
+  /** Defaults to "400px", so that the next page loads before the end is reached. */
+  rootMargin?: string;
+  root?: Element | Document | null;
+  /** Called when the loader rejects. Defaults to logging the error. */
+  onError?: (error: unknown) => void;
+}
+
+export interface InfiniteScroll {
+  readonly loading: boolean;
+  /** True once the loader returned false. */
+  readonly done: boolean;
+  /** Load the next page now, e.g. from a "Retry" button. */
+  load(): Promise<void>;
+  /** Start loading again after `done`, e.g. when a filter changes. */
+  reset(): void;
+  destroy(): void;
+}
+
+export interface ScrollSpyOptions {
+  /** Class of the link of the section in view. Defaults to "active". */
+  activeClass?: string;
+  /**
+   * Area of the viewport in which a section counts as in view. Defaults to
+   * the top 40%: "0px 0px -60% 0px".
+   */
+  rootMargin?: string;
+  root?: Element | Document | null;
+  /** Called with the section in view and its link, or nulls. */
+  onChange?: (section: Element | null, link: HTMLAnchorElement | null) => void;
+}
+
+type EntryHandler = (entry: IntersectionObserverEntry) => void;
+
+interface SharedObserver {
+  observer: IntersectionObserver;
+  handlers: Map<Element, Set<EntryHandler>>;
+  // The latest entry of each element, given to handlers that join later.
+  entries: WeakMap<Element, IntersectionObserverEntry>;
+  /** Disconnect the observer and forget it. */
+  release(): void;
+}
+
+// One observer per root and options, shared by every subscription.
+const sharedObservers = new WeakMap<
+  Element | Document,
+  Map<string, SharedObserver>
+>();
+
+const thresholds = (threshold: number | number[] = 0) =>
+  (Array.isArray(threshold) ? threshold : [threshold])
+    .slice()
+    .sort((a, b) => a - b);
+
+// ========== Shared observers =======================
+
+function getSharedObserver({
+  root = null,
+  rootMargin = "0px",
+  threshold,
+}: VisibilityOptions) {
+  const rootKey = root ?? document;
+  const sorted = thresholds(threshold);
+  const key = `${rootMargin}|${sorted.join(",")}`;
+
+  if (!sharedObservers.has(rootKey)) sharedObservers.set(rootKey, new Map());
+  const byOptions = sharedObservers.get(rootKey)!;
+  if (byOptions.has(key)) return byOptions.get(key)!;
+
+  const handlers = new Map<Element, Set<EntryHandler>>();
+  const entries = new WeakMap<Element, IntersectionObserverEntry>();
+  const observer = new IntersectionObserver(
+    (changes) => {
+      changes.forEach((entry) => {
+        entries.set(entry.target, entry);
+        // Copy so that handlers can unsubscribe while being called.
+        [...(handlers.get(entry.target) ?? [])].forEach((handler) =>
+          handler(entry)
+        );
+      });
+    },
+    { root, rootMargin, threshold: sorted }
+  );
+
+  const release = () => {
+    observer.disconnect();
+    byOptions.delete(key);
+  };
+  const shared = { observer, handlers, entries, release };
+  byOptions.set(key, shared);
+  return shared;
+}
+
+function subscribe(
+  el: Element,
+  handler: EntryHandler,
+  options: VisibilityOptions
+) {
+  const { observer, handlers, entries, release } = getSharedObserver(options);
+
+  if (!handlers.has(el)) {
+    handlers.set(el, new Set());
+    observer.observe(el);
+  } else if (entries.has(el)) {
+    // The observer only reports an element when it starts observing it.
+    queueMicrotask(() => {
+      if (handlers.get(el)?.has(handler)) handler(entries.get(el)!);
+    });
+  }
+  handlers.get(el)!.add(handler);
+
+  return () => {
+    const set = handlers.get(el);
+    if (!set?.delete(handler) || set.size > 0) return;
+    handlers.delete(el);
+    entries.delete(el);
+    observer.unobserve(el);
+    if (handlers.size === 0) release();
+  };
+}
+
+/**
+ * @description Get notified when an element enters or leaves the viewport
+ * (or `root`). Subscriptions with the same root and options share one
+ * IntersectionObserver.
+ * @example
+ * const stop = observeVisibility(video, {
+ *   threshold: 0.5,
+ *   onEnter: () => video.play(),
+ *   onLeave: () => video.pause(),
+ * });
+ * @param el
+ * @param options
+ * @returns A function that stops observing.
+ */
+export function observeVisibility(
+  el: Element,
+  {
+    onEnter,
+    onLeave,
+    onChange,
+    once = false,
+    ...options
+  }: ObserveVisibilityOptions
+) {
+  const minRatio = thresholds(options.threshold)[0] ?? 0;
+  let visible = false;
+  let stopped = false;
+
+  const stop = subscribe(
+    el,
+    (entry) => {
+      onChange?.(entry);
+      const isVisible =
+        entry.isIntersecting && entry.intersectionRatio >= minRatio;
+      if (isVisible === visible) return;
+      visible = isVisible;
+
+      if (visible) {
+        if (once) unsubscribe();
+        onEnter?.(entry);
+      } else {
+        onLeave?.(entry);
+      }
+    },
+    options
+  );
+
+  const unsubscribe = () => {
+    if (stopped) return;
+    stopped = true;
+    stop();
+  };
+  return unsubscribe;
+}
+
+/**
+ * @description Check once whether an element is visible in the viewport
+ * (or `root`), as reported by an IntersectionObserver.
+ * @example
+ * if (await isIntersecting(banner, { threshold: 0.5 })) trackImpression();
+ * @param el  Element to check.
+ * @param options
+ * @returns Whether at least the smallest threshold of the element is visible.
+ */
+export const isIntersecting = (
+  el: Element,
+  options: VisibilityOptions = {}
+) => {
+  const minRatio = thresholds(options.threshold)[0] ?? 0;
+  return new Promise<boolean>((resolve) => {
+    const stop = subscribe(
+      el,
+      (entry) => {
+        stop();
+        resolve(entry.isIntersecting && entry.intersectionRatio >= minRatio);
+      },
+      options
+    );
+  });
+};
+
+/**
+ * @description Check if an element is in the viewport.
+ * @param el  Element to check.
+ * @param partially  Count elements that are only partly visible. Defaults to false.
+ * @returns
+ */
+export const isInViewport = (el: Element, partially = false) => {
+  const rect = el.getBoundingClientRect();
+  const height = getWindowHeight();
+  const width = getWindowWidth();
+
+  if (partially) {
+    return (
+      rect.bottom > 0 &&
+      rect.right > 0 &&
+      rect.top < height &&
+      rect.left < width
+    );
+  }
+  return (
+    rect.top >= 0 &&
+    rect.left >= 0 &&
+    rect.bottom <= height &&
+    rect.right <= width
+  );
+};
+
+// ========== Lazy loading =======================
+
+function loadMedia(el: HTMLElement) {
+  const swap = (target: HTMLElement) => {
+    (["src", "srcset", "sizes", "poster"] as const).forEach((name) => {
+      const value = target.dataset[name];
+      if (value === undefined) return;
+      target.setAttribute(name, value);
+      delete target.dataset[name];
+    });
+  };
+
+  if (el instanceof HTMLVideoElement || el instanceof HTMLAudioElement) {
+    swap(el);
+    el.querySelectorAll<HTMLSourceElement>("source").forEach(swap);
+    el.load();
+    return;
+  }
+  if (el.parentElement instanceof HTMLPictureElement) {
+    el.parentElement
+      .querySelectorAll<HTMLSourceElement>("source")
+      .forEach(swap);
+  }
+  swap(el);
+}
+
+/**
+ * @description Load images, videos and iframes when they are about to
+ * scroll into view. Their `data-src`, `data-srcset`, `data-sizes` and
+ * `data-poster` attributes are copied to the real ones; `<source>`s inside
+ * `<video>` and `<picture>` are handled too.
+ * @example
+ * // <img data-src="/photos/1.jpg" alt="..." width="400" height="300">
+ * const stop = lazyLoad(document, { onLoad: (img) => img.classList.add("fade-in") });
+ * @param container  Element whose media to load. Defaults to the document.
+ * @param options
+ * @returns A function that stops observing media that has not loaded yet.
+ */
+export function lazyLoad(
+  container: ParentNode = document,
+  {
+    selector = "[data-src], [data-srcset]",
+    rootMargin = "200px",
+    root,
+    loadedClass = "loaded",
+    watch = true,
+    onLoad,
+    onError,
+  }: LazyLoadOptions = {}
+) {
+  const stops = new Map<Element, () => void>();
+
+  const add = (el: HTMLElement) => {
+    if (stops.has(el)) return;
+    const stop = observeVisibility(el, {
+      root,
+      rootMargin,
+      once: true,
+      onEnter: () => {
+        stops.delete(el);
+        const loadEvent =
+          el instanceof HTMLVideoElement ? "loadeddata" : "load";
+        el.addEventListener(
+          loadEvent,
+          () => {
+            el.classList.add(loadedClass);
+            onLoad?.(el);
+          },
+          { once: true }
+        );
+        el.addEventListener("error", () => onError?.(el), { once: true });
+        loadMedia(el);
+      },
+    });
+    stops.set(el, stop);
+  };
+
+  // A `<source>` has no box of its own; observe the media it belongs to.
+  const addMatch = (el: HTMLElement) => {
+    const media =
+      el instanceof HTMLSourceElement
+        ? el.parentElement instanceof HTMLPictureElement
+          ? el.parentElement.querySelector("img")
+          : el.parentElement
+        : el;
+    if (media) add(media);
+  };
+
+  const scan = (node: ParentNode) => {
+    if (node instanceof HTMLElement && node.matches(selector)) addMatch(node);
+    node.querySelectorAll<HTMLElement>(selector).forEach(addMatch);
+  };
+
+  scan(container);
+
+  const observer = watch
+    ? new MutationObserver((mutations) =>
+        mutations.forEach((mutation) =>
+          mutation.addedNodes.forEach((node) => {
+            if (node instanceof HTMLElement) scan(node);
+          })
+        )
+      )
+    : undefined;
+  observer?.observe(
+    container === document ? document.documentElement : (container as Node),
+    { childList: true, subtree: true }
+  );
+
+  return () => {
+    observer?.disconnect();
+    stops.forEach((stop) => stop());
+    stops.clear();
+  };
+}
+
+// ========== Infinite scroll =======================
+
+/**
+ * @description Call a loader whenever a sentinel element near the end of a
+ * list becomes visible. Only one load runs at a time, and loading continues
+ * while the sentinel stays visible, so that short pages fill the viewport.
+ * @example
+ * let page = 1;
+ * const scroller = infiniteScroll(document.querySelector("#sentinel")!, async () => {
+ *   const items = await http.get<Item[]>("/api/items", { query: { page: page++ } });
+ *   list.append(...items.map(renderItem));
+ *   return items.length > 0;
+ * });
+ * @param sentinel  Element after the last item.
+ * @param loader  Loads and renders the next page. Resolve to false when there are no more.
+ * @param options
+ * @returns
+ */
+export function infiniteScroll(
+  sentinel: Element,
+  loader: () => Promise<boolean | void> | boolean | void,
+  {
+    rootMargin = "400px",
+    root,
+    onError = (error) => console.error("Failed to load more items", error),
+  }: InfiniteScrollOptions = {}
+): InfiniteScroll {
+  let loading = false;
+  let done = false;
+  let visible = false;
+  let destroyed = false;
+  let stop: (() => void) | undefined;
+
+  const start = () => {
+    stop = observeVisibility(sentinel, {
+      root,
+      rootMargin,
+      onEnter: () => {
+        visible = true;
+        load();
+      },
+      onLeave: () => {
+        visible = false;
+      },
+    });
+  };
+
+  const load = async () => {
+    if (loading || done || destroyed) return;
+    loading = true;
+    sentinel.setAttribute("aria-busy", "true");
+    let failed = false;
+    try {
+      if ((await loader()) === false) {
+        done = true;
+        stop?.();
+      }
+    } catch (error) {
+      // Wait for the sentinel to enter again, or for a call to load().
+      failed = true;
+      onError(error);
+    } finally {
+      loading = false;
+      sentinel.removeAttribute("aria-busy");
+    }
+    // The observer does not report the sentinel again while it stays visible.
+    if (!failed && visible && !done && !destroyed) {
+      requestAnimationFrame(() => {
+        if (visible) load();
+      });
+    }
+  };
+
+  start();
+
+  return {
+    get loading() {
+      return loading;
+    },
+    get done() {
+      return done;
+    },
+    load,
+    reset() {
+      if (!done || destroyed) return;
+      done = false;
+      visible = false;
+      start();
+    },
+    destroy() {
+      destroyed = true;
+      stop?.();
+    },
+  };
+}
+
+// ========== Scroll spy =======================
+
+/**
+ * @description Highlight the navigation link of the section in view. Links
+ * point to their sections by fragment (`href="#pricing"`); the active link
+ * gets `activeClass` and `aria-current="location"`. When several sections
+ * are in view, the first in document order wins.
+ * @example
+ * const stop = scrollSpy(document.querySelectorAll("nav a"));
+ * @param links  Links with `#id` hrefs.
+ * @param options
+ * @returns A function that stops observing.
+ */
+export function scrollSpy(
+  links: Iterable<HTMLAnchorElement> | ArrayLike<HTMLAnchorElement>,
+  {
+    activeClass = "active",
+    rootMargin = "0px 0px -60% 0px",
+    root,
+    onChange,
+  }: ScrollSpyOptions = {}
+) {
+  const sections = new Map<Element, HTMLAnchorElement>();
+  Array.from(links).forEach((link) => {
+    const id = decodeURIComponent(link.hash.slice(1));
+    const section = id && document.getElementById(id);
+    if (section) sections.set(section, link);
+  });
+
+  const inView = new Set<Element>();
+  let active: Element | null = null;
+
+  const update = () => {
+    const first = [...inView].sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    )[0];
+    // Keep the last section highlighted while scrolling between sections.
+    const next = first ?? active;
+    if (next === active) return;
+
+    if (active) {
+      const link = sections.get(active)!;
+      link.classList.remove(activeClass);
+      link.removeAttribute("aria-current");
+    }
+    active = next;
+    const link = active ? sections.get(active)! : null;
+    link?.classList.add(activeClass);
+    link?.setAttribute("aria-current", "location");
+    onChange?.(active, link);
+  };
+
+  const stops = [...sections.keys()].map((section) =>
+    observeVisibility(section, {
+      root,
+      rootMargin,
+      onEnter: () => {
+        inView.add(section);
+        update();
+      },
+      onLeave: () => {
+        inView.delete(section);
+        update();
+      },
+    })
+  );
+
+  return () => {
+    stops.forEach((stop) => stop());
+    if (active) {
+      const link = sections.get(active)!;
+      link.classList.remove(activeClass);
+      link.removeAttribute("aria-current");
+    }
+  };
+}
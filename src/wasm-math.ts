@@ -0,0 +1,144 @@
+/**
+ * Typed bridge for the exports of math.c (see the Makefile `all` target).
+ * Path: src/wasm-math.ts
+ */
+
+import { pipeline } from "./filters";
+import { loadWasm, type LoadWasmOptions } from "./wasm";
+
+/** Raw exports of math.wasm. Pointers are byte offsets into `memory`. */
+export interface MathWasmExports {
+  memory: WebAssembly.Memory;
+  add(x: number, y: number): number;
+  sub(x: number, y: number): number;
+  mul(x: number, y: number): number;
+  sepia_filter(width: number, height: number, buffer: number): void;
+  logPixelValues(x: number, y: number, r: number, g: number, b: number): void;
+  allocate(size: number): number;
+  destroy(ptr: number): void;
+}
+
+export interface MathModule {
+  exports: MathWasmExports;
+  add(x: number, y: number): number;
+  sub(x: number, y: number): number;
+  mul(x: number, y: number): number;
+  /**
+   * Copy the pixels into linear memory, run `sepia_filter` and copy the
+   * result back into imageData.
+   */
+  sepiaFilter(imageData: ImageData): ImageData;
+  /**
+   * Allocate `size` bytes, call fn with the pointer and always free it.
+   */
+  withAllocation<T>(size: number, fn: (ptr: number) => T): T;
+  /**
+   * Zero-copy view of linear memory. The view is invalidated (detached) when
+   * memory grows, so do not keep it across calls that may allocate.
+   */
+  view(ptr: number, length: number): Uint8ClampedArray;
+}
+
+/**
+ * Env imports math.wasm needs on top of the defaults from `createWasmEnv`
+ * (abort, printf, log, memory growth).
+ */
+export const mathImports: WebAssembly.Imports = {
+  env: {
+    logPixelValues(x: number, y: number, r: number, g: number, b: number) {
+      console.log(`Pixel at (${x}, ${y}) = RGB(${r}, ${g}, ${b})`);
+    },
+  },
+};
+
+/**
+ * @description Load math.wasm and wrap its exports.
+ * @param url URL of math.wasm.
+ * @param options Loader options. `imports` defaults to `mathImports`.
+ * @returns
+ */
+export async function loadMathModule(
+  url = "./math.wasm",
+  { imports = mathImports, ...options }: LoadWasmOptions = {}
+): Promise<MathModule> {
+  const wasm = await loadWasm(url, { imports, ...options });
+  const exports = wasm.exports as unknown as MathWasmExports;
+
+  if (!(exports.memory instanceof WebAssembly.Memory)) {
+    throw new Error(`${url} does not export its memory`);
+  }
+
+  const withAllocation = <T>(size: number, fn: (ptr: number) => T) => {
+    const ptr = exports.allocate(size);
+    if (!ptr) {
+      throw new Error(`Failed to allocate ${size} bytes in WASM memory`);
+    }
+
+    try {
+      return fn(ptr);
+    } finally {
+      exports.destroy(ptr);
+    }
+  };
+
+  const view = (ptr: number, length: number) =>
+    new Uint8ClampedArray(exports.memory.buffer, ptr, length);
+
+  const sepiaFilter = (imageData: ImageData) => {
+    const { data, width, height } = imageData;
+
+    return withAllocation(data.length, (ptr) => {
+      view(ptr, data.length).set(data);
+      exports.sepia_filter(width, height, ptr);
+      // Take a fresh view: the call may have grown memory.
+      data.set(view(ptr, data.length));
+      return imageData;
+    });
+  };
+
+  return {
+    exports,
+    add: (x, y) => exports.add(x, y),
+    sub: (x, y) => exports.sub(x, y),
+    mul: (x, y) => exports.mul(x, y),
+    sepiaFilter,
+    withAllocation,
+    view,
+  };
+}
+
+export interface ImageFilters {
+  /** "wasm" when math.wasm loaded, "js" when the JS filters are used. */
+  backend: "wasm" | "js";
+  /** Same contract as the JS `sepiaFilter`: filters imageData in place. */
+  sepiaFilter(imageData: ImageData): ImageData;
+}
+
+/**
+ * @description Get image filters backed by math.wasm, falling back to the JS
+ * filters when WebAssembly is unavailable or the module fails to load.
+ * @example
+ * const filters = await loadImageFilters("./math.wasm");
+ * filters.sepiaFilter(imageData);
+ * @param url URL of math.wasm.
+ * @param options Loader options, as for `loadMathModule`.
+ * @returns
+ */
+export async function loadImageFilters(
+  url?: string,
+  options?: LoadWasmOptions
+): Promise<ImageFilters> {
+  if (typeof WebAssembly !== "undefined") {
+    try {
+      const math = await loadMathModule(url, options);
+      return { backend: "wasm", sepiaFilter: math.sepiaFilter };
+    } catch (error) {
+      console.error("Failed to load WASM filters, using JS filters", error);
+    }
+  }
+
+  return {
+    backend: "js",
+    sepiaFilter: (imageData) => pipeline(imageData).sepia().run(imageData),
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { formatCString, writeCString } from "./wasm";
+
+// A varargs buffer is laid out from ARGS, with strings stored from STRINGS.
+const ARGS = 8;
+const STRINGS = 1024;
+
+type Arg =
+  | { int: number }
+  | { long: bigint }
+  | { double: number }
+  | { string: string };
+
+// Lay out the arguments the way clang does for wasm32: each one aligned to
+// its own size, strings passed as pointers.
+function printf(format: string, ...args: Arg[]) {
+  const memory = new WebAssembly.Memory({ initial: 1 });
+  const view = new DataView(memory.buffer);
+  let offset = ARGS;
+  let strings = STRINGS;
+
+  const next = (size: 4 | 8) => {
+    offset = Math.ceil(offset / size) * size;
+    const at = offset;
+    offset += size;
+    return at;
+  };
+
+  for (const arg of args) {
+    if ("int" in arg) view.setInt32(next(4), arg.int, true);
+    else if ("long" in arg) view.setBigInt64(next(8), arg.long, true);
+    else if ("double" in arg) view.setFloat64(next(8), arg.double, true);
+    else {
+      view.setUint32(next(4), strings, true);
+      strings += writeCString(memory, strings, arg.string);
+    }
+  }
+  return formatCString(memory, format, ARGS);
+}
+
+describe("formatCString", () => {
+  test("formats integers with flags and width", () => {
+    expect(
+      printf("%d|%i|% d|%+d", { int: -5 }, { int: 7 }, { int: 5 }, { int: 5 })
+    ).toBe("-5|7| 5|+5");
+    expect(
+      printf("[%5d][%-5d][%05d]", { int: 42 }, { int: 42 }, { int: -42 })
+    ).toBe("[   42][42   ][-0042]");
+    expect(
+      printf(
+        "%u %x %X %#x %o",
+        { int: -1 },
+        { int: 255 },
+        { int: 255 },
+        { int: 255 },
+        { int: 8 }
+      )
+    ).toBe("4294967295 ff FF 0xff 10");
+  });
+
+  test("reads 64-bit integers aligned to 8 bytes", () => {
+    expect(
+      printf("%d %lld %d", { int: 1 }, { long: -(2n ** 40n) }, { int: 2 })
+    ).toBe("1 -1099511627776 2");
+  });
+
+  test("formats fixed and exponent notation", () => {
+    expect(
+      printf(
+        "%f %.2f %e %E",
+        { double: 1.5 },
+        { double: 3.14159 },
+        { double: 12345.678 },
+        { double: 0.00012 }
+      )
+    ).toBe("1.500000 3.14 1.234568e+04 1.200000E-04");
+    expect(printf("% e|%08.3f", { double: 1.5 }, { double: -2.5 })).toBe(
+      " 1.500000e+00|-002.500"
+    );
+  });
+
+  test("formats %g like C", () => {
+    const g = (format: string, n: number) => printf(format, { double: n });
+    expect(g("%g", 12345678)).toBe("1.23457e+07");
+    expect(g("%g", 0.00001234)).toBe("1.234e-05");
+    expect(g("%g", 999999.5)).toBe("1e+06");
+    expect(g("%g", 100000)).toBe("100000");
+    expect(g("%g", 0)).toBe("0");
+    expect(g("%.0g", 123)).toBe("1e+02");
+    expect(g("%.3g", 3.14159)).toBe("3.14");
+    expect(g("%#g", 1.5)).toBe("1.50000");
+    expect(g("%G", 1e-10)).toBe("1E-10");
+    expect(g("%+g", 2.5)).toBe("+2.5");
+    expect(g("%10.3g", 0.5)).toBe("       0.5");
+  });
+
+  test("prints infinities and NaN", () => {
+    expect(
+      printf(
+        "%f %g %e",
+        { double: Infinity },
+        { double: -Infinity },
+        { double: NaN }
+      )
+    ).toBe("inf -inf nan");
+    expect(printf("%F", { double: Infinity })).toBe("INF");
+  });
+
+  test("formats characters, strings and pointers", () => {
+    expect(printf("%c%c", { int: 72 }, { int: 105 })).toBe("Hi");
+    expect(
+      printf(
+        "<%s|%.3s|%-6s|%6s>",
+        { string: "héllo" },
+        { string: "world" },
+        { string: "ab" },
+        { string: "cd" }
+      )
+    ).toBe("<héllo|wor|ab    |    cd>");
+    expect(printf("%s", { int: 0 })).toBe("(null)");
+    expect(printf("%p", { int: 0x400 })).toBe("0x400");
+  });
+
+  test("keeps literal text and %%", () => {
+    expect(printf("100%% done")).toBe("100% done");
+  });
+});
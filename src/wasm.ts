@@ -0,0 +1,578 @@
+/**
+ * WebAssembly loading helpers.
+ * Path: src/wasm.ts
+ */
+
+export type WasmCacheMode = "memory" | "indexeddb" | "none";
+
+export interface CompileWasmOptions {
+  /**
+   * Where compiled modules are cached. Defaults to "memory".
+   * "indexeddb" also persists the module bytes across page loads.
+   */
+  cache?: WasmCacheMode;
+  /**
+   * Cache key. Defaults to the URL. Include a version (e.g. "math.wasm@2")
+   * when using the IndexedDB cache so that stale bytes are not reused.
+   */
+  cacheKey?: string;
+  /** Options passed to fetch. */
+  fetchOptions?: RequestInit;
+}
+
+export interface WasmAbortInfo {
+  message?: string;
+  file?: string;
+  line: number;
+  column: number;
+}
+
+export interface WasmEnvOptions {
+  /** Returns the module memory. Called lazily, after instantiation. */
+  getMemory: () => WebAssembly.Memory;
+  /** Called before abort throws. Defaults to console.error. */
+  onAbort?: (info: WasmAbortInfo) => void;
+  /** Output for `log` and `printf`. Defaults to console.log. */
+  log?: (...data: unknown[]) => void;
+  /** Called when the module reports that its memory grew. */
+  onMemoryGrow?: (memory: WebAssembly.Memory) => void;
+}
+
+export interface LoadWasmOptions extends CompileWasmOptions {
+  /** Imports. `env` entries override the default env imports. */
+  imports?: WebAssembly.Imports;
+  /** Options for the default env imports. */
+  env?: Omit<WasmEnvOptions, "getMemory">;
+}
+
+export interface WasmInstance<T extends WebAssembly.Exports> {
+  module: WebAssembly.Module;
+  instance: WebAssembly.Instance;
+  exports: T;
+  /** Exported (or imported) memory. Throws if the module has none. */
+  readonly memory: WebAssembly.Memory;
+  readCString(ptr: number, maxBytes?: number): string;
+  writeCString(ptr: number, value: string, maxBytes?: number): number;
+  readArray<A extends TypedArray>(
+    ctor: TypedArrayConstructor<A>,
+    ptr: number,
+    length: number
+  ): A;
+  viewArray<A extends TypedArray>(
+    ctor: TypedArrayConstructor<A>,
+    ptr: number,
+    length: number
+  ): A;
+  writeArray(ptr: number, array: TypedArray): void;
+}
+
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+export interface TypedArrayConstructor<A extends TypedArray> {
+  new (buffer: ArrayBuffer, byteOffset: number, length: number): A;
+  readonly BYTES_PER_ELEMENT: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ========== Linear memory =======================
+
+/**
+ * @description Read a NUL-terminated UTF-8 string from linear memory.
+ * @param memory
+ * @param ptr Address of the first byte.
+ * @param maxBytes Stop after this many bytes if no NUL is found.
+ * @returns
+ */
+export function readCString(
+  memory: WebAssembly.Memory,
+  ptr: number,
+  maxBytes = Infinity
+) {
+  const bytes = new Uint8Array(memory.buffer, ptr);
+  const limit = Math.min(bytes.length, maxBytes);
+  let end = 0;
+  while (end < limit && bytes[end] !== 0) end++;
+  return decoder.decode(bytes.subarray(0, end));
+}
+
+/**
+ * @description Number of bytes needed to store a string as a C string,
+ * including the NUL terminator.
+ * @param value
+ * @returns
+ */
+export function cStringByteLength(value: string) {
+  return encoder.encode(value).length + 1;
+}
+
+/**
+ * @description Write a string to linear memory as a NUL-terminated UTF-8
+ * string. The string is truncated to fit maxBytes (including the NUL).
+ * @param memory
+ * @param ptr Destination address.
+ * @param value
+ * @param maxBytes Size of the destination buffer.
+ * @returns Number of bytes written, including the NUL.
+ */
+export function writeCString(
+  memory: WebAssembly.Memory,
+  ptr: number,
+  value: string,
+  maxBytes = cStringByteLength(value)
+) {
+  if (maxBytes < 1) return 0;
+
+  const target = new Uint8Array(memory.buffer, ptr, maxBytes);
+  const { written } = encoder.encodeInto(value, target.subarray(0, -1));
+  target[written] = 0;
+  return written + 1;
+}
+
+/**
+ * @description Zero-copy typed array view of linear memory.
+ * The view is detached when memory grows; do not keep it across calls that
+ * may allocate.
+ * @param memory
+ * @param ctor Typed array constructor, e.g. Float32Array.
+ * @param ptr Address. Must be aligned to ctor.BYTES_PER_ELEMENT.
+ * @param length Number of elements.
+ * @returns
+ */
+export function viewTypedArray<A extends TypedArray>(
+  memory: WebAssembly.Memory,
+  ctor: TypedArrayConstructor<A>,
+  ptr: number,
+  length: number
+) {
+  return new ctor(memory.buffer as ArrayBuffer, ptr, length);
+}
+
+/**
+ * @description Copy a typed array out of linear memory.
+ * @param memory
+ * @param ctor Typed array constructor, e.g. Float32Array.
+ * @param ptr Address. Must be aligned to ctor.BYTES_PER_ELEMENT.
+ * @param length Number of elements.
+ * @returns
+ */
+export function readTypedArray<A extends TypedArray>(
+  memory: WebAssembly.Memory,
+  ctor: TypedArrayConstructor<A>,
+  ptr: number,
+  length: number
+) {
+  return viewTypedArray(memory, ctor, ptr, length).slice() as A;
+}
+
+/**
+ * @description Copy a typed array into linear memory.
+ * @param memory
+ * @param ptr Destination address.
+ * @param array
+ */
+export function writeTypedArray(
+  memory: WebAssembly.Memory,
+  ptr: number,
+  array: TypedArray
+) {
+  const bytes = new Uint8Array(
+    array.buffer,
+    array.byteOffset,
+    array.byteLength
+  );
+  new Uint8Array(memory.buffer, ptr, bytes.length).set(bytes);
+}
+
+// ========== printf =======================
+
+const formatPattern =
+  /%([-+ 0#]*)(\d+)?(?:\.(\d+))?(hh|h|ll|l|j|z|t|L)?([diuoxXfFeEgGcsp%])/g;
+
+function pad(value: string, flags: string, width: number, numeric: boolean) {
+  if (value.length >= width) return value;
+  if (flags.includes("-")) return value.padEnd(width);
+
+  if (flags.includes("0") && numeric) {
+    const sign = /^[-+ ]/.test(value) ? value[0] : "";
+    return sign + value.slice(sign.length).padStart(width - sign.length, "0");
+  }
+
+  return value.padStart(width);
+}
+
+// C prints at least two exponent digits (1.5e+07), JS prints one (1.5e+7).
+function cExponent(value: string) {
+  return value.replace(/e([+-])(\d)$/, "e$10$2");
+}
+
+// %g uses %e when the exponent is below -4 or at least the precision, and
+// %f otherwise. Trailing zeros are removed unless the # flag is set.
+function cGeneral(n: number, precision: number, alternate: boolean) {
+  const digits = precision || 1;
+  const exponent = Number(n.toExponential(digits - 1).split("e")[1]);
+  let value =
+    exponent < -4 || exponent >= digits
+      ? n.toExponential(digits - 1)
+      : n.toFixed(digits - 1 - exponent);
+  if (!alternate && value.includes(".")) {
+    value = value.replace(/\.?0+(?=e|$)/, "");
+  }
+  return cExponent(value);
+}
+
+// The sign that the + and space flags put before non-negative numbers.
+function positiveSign(flags: string) {
+  return flags.includes("+") ? "+" : flags.includes(" ") ? " " : "";
+}
+
+/**
+ * @description Format a printf-style string with arguments from a wasm32
+ * varargs buffer (as passed by clang to imported variadic functions).
+ * Supports the d, i, u, o, x, X, f, F, e, E, g, G, c, s, p and % conversions
+ * with flags, width, precision and the ll length modifier.
+ * @param memory
+ * @param format Format string.
+ * @param argsPtr Address of the varargs buffer.
+ * @returns
+ */
+export function formatCString(
+  memory: WebAssembly.Memory,
+  format: string,
+  argsPtr: number
+) {
+  const view = new DataView(memory.buffer);
+  let offset = argsPtr;
+
+  // Each argument is aligned to its own size.
+  const next = (size: 4 | 8) => {
+    offset = Math.ceil(offset / size) * size;
+    const at = offset;
+    offset += size;
+    return at;
+  };
+
+  return format.replace(
+    formatPattern,
+    (_match, flags: string, width = "0", precision, length, conversion) => {
+      const minWidth = Number(width);
+      const wide = length === "ll" || length === "j";
+      let value: string;
+
+      switch (conversion) {
+        case "%":
+          return "%";
+        case "d":
+        case "i": {
+          const n = wide
+            ? view.getBigInt64(next(8), true)
+            : view.getInt32(next(4), true);
+          value = (n >= 0 ? positiveSign(flags) : "") + n.toString();
+          break;
+        }
+        case "u":
+        case "o":
+        case "x":
+        case "X": {
+          const n = wide
+            ? view.getBigUint64(next(8), true)
+            : view.getUint32(next(4), true);
+          const radix = conversion === "u" ? 10 : conversion === "o" ? 8 : 16;
+          value = n.toString(radix);
+          if (conversion === "X") value = value.toUpperCase();
+          if (flags.includes("#") && radix === 16 && n) value = "0x" + value;
+          break;
+        }
+        case "f":
+        case "F":
+        case "e":
+        case "E":
+        case "g":
+        case "G": {
+          const n = view.getFloat64(next(8), true);
+          const digits = precision === undefined ? 6 : Number(precision);
+          const lower = conversion.toLowerCase();
+
+          if (!Number.isFinite(n)) {
+            value = Number.isNaN(n) ? "nan" : n > 0 ? "inf" : "-inf";
+          } else if (lower === "f") {
+            value = n.toFixed(digits);
+          } else if (lower === "e") {
+            value = cExponent(n.toExponential(digits));
+          } else {
+            value = cGeneral(n, digits, flags.includes("#"));
+          }
+
+          if (n >= 0) value = positiveSign(flags) + value;
+          if (conversion !== lower) value = value.toUpperCase();
+          break;
+        }
+        case "c":
+          value = String.fromCharCode(view.getInt32(next(4), true));
+          break;
+        case "s": {
+          const ptr = view.getUint32(next(4), true);
+          const max = precision === undefined ? Infinity : Number(precision);
+          value = ptr ? readCString(memory, ptr, max) : "(null)";
+          break;
+        }
+        case "p":
+          value = "0x" + view.getUint32(next(4), true).toString(16);
+          break;
+        default:
+          return _match;
+      }
+
+      return pad(value, flags, minWidth, !"csp".includes(conversion));
+    }
+  );
+}
+
+// ========== Env imports =======================
+
+/**
+ * @description Default `env` imports for C modules.
+ * - abort(msg, file, line, column) and __assert_fail(assertion, file, line,
+ *   func): decode the C strings, report and throw.
+ * - printf(format, args): printf-style logging through `log`.
+ * - log(...values): log raw numbers.
+ * - emscripten_notify_memory_growth(index): memory growth notification.
+ * @param options
+ * @returns
+ */
+export function createWasmEnv({
+  getMemory,
+  onAbort = (info) => console.error("WASM abort", info),
+  log = console.log,
+  onMemoryGrow,
+}: WasmEnvOptions) {
+  const str = (ptr: number) =>
+    ptr ? readCString(getMemory(), ptr) : undefined;
+
+  const abort = (info: WasmAbortInfo): never => {
+    onAbort(info);
+    const where = `${info.file ?? "<unknown>"}:${info.line}:${info.column}`;
+    throw new Error(`abort: ${info.message ?? "called"} at ${where}`);
+  };
+
+  return {
+    abort(msg: number, file: number, line: number, column: number) {
+      abort({ message: str(msg), file: str(file), line, column });
+    },
+    __assert_fail(assertion: number, file: number, line: number, fn: number) {
+      const message = `Assertion failed: ${str(assertion)} (${str(fn)})`;
+      abort({ message, file: str(file), line, column: 0 });
+    },
+    printf(format: number, args: number) {
+      const memory = getMemory();
+      const output = formatCString(memory, readCString(memory, format), args);
+      log(output.replace(/\n$/, ""));
+      return encoder.encode(output).length;
+    },
+    log(...values: unknown[]) {
+      log(...values);
+    },
+    emscripten_notify_memory_growth(_index: number) {
+      onMemoryGrow?.(getMemory());
+    },
+  };
+}
+
+// ========== Loading =======================
+
+const moduleCache = new Map<string, Promise<WebAssembly.Module>>();
+
+const idbName = "jsutils-wasm";
+const idbStore = "modules";
+
+function idbRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbOpen() {
+  const request = indexedDB.open(idbName, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(idbStore);
+  return idbRequest(request);
+}
+
+async function idbGet(key: string) {
+  const db = await idbOpen();
+  try {
+    const store = db.transaction(idbStore).objectStore(idbStore);
+    return (await idbRequest(store.get(key))) as ArrayBuffer | undefined;
+  } finally {
+    db.close();
+  }
+}
+
+async function idbPut(key: string, bytes: ArrayBuffer) {
+  const db = await idbOpen();
+  try {
+    const store = db.transaction(idbStore, "readwrite").objectStore(idbStore);
+    await idbRequest(store.put(bytes, key));
+  } finally {
+    db.close();
+  }
+}
+
+async function compileResponse(response: Response) {
+  if (typeof WebAssembly.compileStreaming === "function") {
+    try {
+      return await WebAssembly.compileStreaming(response.clone());
+    } catch {
+      // Usually a wrong Content-Type; compile from the bytes instead.
+    }
+  }
+
+  return WebAssembly.compile(await response.arrayBuffer());
+}
+
+/**
+ * @description Fetch and compile a wasm module.
+ * Uses compileStreaming and falls back to arrayBuffer() + compile when the
+ * server sends the wrong MIME type. Compiled modules are cached by URL.
+ * @param url
+ * @param options
+ * @returns
+ */
+export async function compileWasm(
+  url: string | URL,
+  { cache = "memory", cacheKey, fetchOptions }: CompileWasmOptions = {}
+) {
+  const key = cacheKey ?? String(url);
+  const cached = cache !== "none" && moduleCache.get(key);
+  if (cached) return cached;
+
+  const compile = async () => {
+    const persist = cache === "indexeddb" && typeof indexedDB !== "undefined";
+
+    if (persist) {
+      const bytes = await idbGet(key).catch(() => undefined);
+      if (bytes) return WebAssembly.compile(bytes);
+    }
+
+    const response = await fetch(url, fetchOptions);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}. Status: ${response.status}`);
+    }
+
+    if (persist) {
+      const bytes = await response.arrayBuffer();
+      const module = await WebAssembly.compile(bytes);
+      await idbPut(key, bytes).catch((error) =>
+        console.error("Failed to cache wasm module", error)
+      );
+      return module;
+    }
+
+    return compileResponse(response);
+  };
+
+  const promise = compile();
+  if (cache !== "none") {
+    moduleCache.set(key, promise);
+    promise.catch(() => moduleCache.delete(key));
+  }
+  return promise;
+}
+
+/**
+ * @description Clear the compiled module cache (memory and IndexedDB).
+ */
+export async function clearWasmCache() {
+  moduleCache.clear();
+
+  if (typeof indexedDB !== "undefined") {
+    const db = await idbOpen();
+    try {
+      const store = db.transaction(idbStore, "readwrite").objectStore(idbStore);
+      await idbRequest(store.clear());
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * @description Load, cache and instantiate a wasm module with the default
+ * env imports and memory helpers.
+ * @example
+ * const wasm = await loadWasm<{ greet(ptr: number): void }>("./hello.wasm");
+ * wasm.exports.greet(ptr);
+ * @param url
+ * @param options
+ * @returns
+ */
+export async function loadWasm<
+  T extends WebAssembly.Exports = WebAssembly.Exports
+>(url: string | URL, options: LoadWasmOptions = {}): Promise<WasmInstance<T>> {
+  const { imports = {}, env: envOptions, ...compileOptions } = options;
+  const module = await compileWasm(url, compileOptions);
+
+  let memory =
+    imports.env?.memory instanceof WebAssembly.Memory
+      ? imports.env.memory
+      : undefined;
+
+  const getMemory = () => {
+    if (!memory) throw new Error(`${url} has no memory`);
+    return memory;
+  };
+
+  const env = {
+    ...createWasmEnv({ ...envOptions, getMemory }),
+    ...imports.env,
+  };
+  const instance = await WebAssembly.instantiate(module, { ...imports, env });
+
+  if (instance.exports.memory instanceof WebAssembly.Memory) {
+    memory = instance.exports.memory;
+  }
+
+  return {
+    module,
+    instance,
+    exports: instance.exports as T,
+    get memory() {
+      return getMemory();
+    },
+    readCString: (ptr, maxBytes) => readCString(getMemory(), ptr, maxBytes),
+    writeCString: (ptr, value, maxBytes) =>
+      writeCString(getMemory(), ptr, value, maxBytes),
+    readArray: (ctor, ptr, length) =>
+      readTypedArray(getMemory(), ctor, ptr, length),
+    viewArray: (ctor, ptr, length) =>
+      viewTypedArray(getMemory(), ctor, ptr, length),
+    writeArray: (ptr, array) => writeTypedArray(getMemory(), ptr, array),
+  };
+}
+
+/**
+ * Import wasm module. Uses compileStreaming where possible and falls back to
+ * arrayBuffer() when the server sends the wrong MIME type.
+ * @param url
+ * @returns
+ */
+export async function importWasmModule(
+  url: string,
+  importObject?: WebAssembly.Imports
+) {
+  const module = await compileWasm(url);
+  const instance = await WebAssembly.instantiate(module, importObject);
+  return { exports: instance.exports, module };
+}